@@ -1,8 +1,11 @@
 import { useRouter } from 'expo-router';
-import { useEffect, useState } from 'react';
-import { FlatList, Platform, StyleSheet, Text, TouchableOpacity, View, useColorScheme } from 'react-native';
+import { useEffect, useRef, useState } from 'react';
+import { Platform, SectionList, StyleSheet, Text, TouchableOpacity, View, useColorScheme } from 'react-native';
 import { useAuth } from '../../contexts/AuthContext';
-import { Event, subscribeToEventsForUser } from '../../lib/firestore/events';
+import { describeUndoWindow } from '../../lib/deletion';
+import { Event, getEventRole, isEventArchived, isEventOrganizer, subscribeToEventsForUser } from '../../lib/firestore/events';
+import { copyLegacyInvitations, migrateEventInvitations } from '../../lib/firestore/invitations';
+import { canPurgeEvent, purgeEvent } from '../../lib/firestore/purge';
 import { getColors } from '../../lib/theme';
 
 export default function EventsScreen() {
@@ -13,6 +16,8 @@ export default function EventsScreen() {
   const [events, setEvents] = useState<Event[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const purgingEventIds = useRef(new Set<string>());
+  const migratingEventIds = useRef(new Set<string>());
 
   useEffect(() => {
     if (!user) {
@@ -40,6 +45,57 @@ export default function EventsScreen() {
     return () => unsubscribe();
   }, [user]);
 
+  // Deleted events are purged by their owner once the undo window is over
+  useEffect(() => {
+    if (!user) return;
+
+    events
+      .filter((event) => canPurgeEvent(event, user.uid) && !purgingEventIds.current.has(event.id))
+      .forEach((event) => {
+        purgingEventIds.current.add(event.id);
+        purgeEvent(event.id, user.uid).catch((err) => {
+          console.error('Error purging event:', err);
+        });
+      });
+  }, [events, user]);
+
+  // Invitations still stored on event documents are moved to the invitations
+  // collection by whichever member sees the event first, invitees only look
+  // them up there
+  useEffect(() => {
+    if (!user) return;
+
+    events
+      .filter((event) => event.invitations && !event.deletedAt && !migratingEventIds.current.has(event.id))
+      .forEach((event) => {
+        migratingEventIds.current.add(event.id);
+        const migrate = isEventOrganizer(event, user.uid) ? migrateEventInvitations : copyLegacyInvitations;
+        migrate(event.id).catch((err) => {
+          console.error('Error migrating invitations:', err);
+        });
+      });
+  }, [events, user]);
+
+  // Upcoming events soonest first with undated ones last, past events most
+  // recent first. Deleted events are only listed for their owner, who can
+  // still restore them.
+  const dateOf = (event: Event) => event.eventDate?.seconds ?? Infinity;
+  const activeEvents = events.filter((event) => !event.deletedAt);
+  const upcomingEvents = activeEvents
+    .filter((event) => !isEventArchived(event))
+    .sort((a, b) => dateOf(a) - dateOf(b));
+  const pastEvents = activeEvents
+    .filter((event) => isEventArchived(event))
+    .sort((a, b) => (b.eventDate?.seconds ?? 0) - (a.eventDate?.seconds ?? 0));
+  const deletedEvents = events
+    .filter((event) => !!event.deletedAt && !!user && getEventRole(event, user.uid) === 'owner')
+    .sort((a, b) => (b.deletedAt?.seconds ?? 0) - (a.deletedAt?.seconds ?? 0));
+  const sections = [
+    { title: 'Upcoming', data: upcomingEvents },
+    { title: 'Past', data: pastEvents },
+    { title: 'Recently deleted', data: deletedEvents },
+  ].filter((section) => section.data.length > 0);
+
   const renderEvent = ({ item }: { item: Event }) => (
     <TouchableOpacity
       style={[styles.eventCard, { backgroundColor: colors.surface }]}
@@ -52,7 +108,9 @@ export default function EventsScreen() {
           : 'No date set'}
       </Text>
       <Text style={[styles.eventMembers, { color: colors.textTertiary }]}>
-        {item.members?.length || 0} member{item.members?.length !== 1 ? 's' : ''}
+        {item.deletedAt
+          ? describeUndoWindow(item.deletedAt.toDate())
+          : `${item.members?.length || 0} member${item.members?.length !== 1 ? 's' : ''}`}
       </Text>
     </TouchableOpacity>
   );
@@ -61,12 +119,20 @@ export default function EventsScreen() {
     <View style={[styles.container, { backgroundColor: colors.background }]}>
       <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
         <Text style={[styles.title, { color: colors.text }]}>My Events</Text>
-        <TouchableOpacity
-          style={styles.addButton}
-          onPress={() => router.push('/events/create')}
-        >
-          <Text style={styles.addButtonText}>+ New Event</Text>
-        </TouchableOpacity>
+        <View style={styles.headerButtons}>
+          <TouchableOpacity
+            style={[styles.addButton, styles.joinButton]}
+            onPress={() => router.push('/join')}
+          >
+            <Text style={styles.addButtonText}>Join</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={() => router.push('/events/create')}
+          >
+            <Text style={styles.addButtonText}>+ New Event</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
       {loading ? (
@@ -80,19 +146,23 @@ export default function EventsScreen() {
             Please check your connection and try again.
           </Text>
         </View>
-      ) : events.length === 0 ? (
+      ) : sections.length === 0 ? (
         <View style={styles.center}>
           <Text style={[styles.emptyText, { color: colors.textSecondary }]}>No events yet</Text>
           <Text style={[styles.emptySubtext, { color: colors.textTertiary }]}>
-            Create your first event to get started!
+            Create your first event or join one with an invite code
           </Text>
         </View>
       ) : (
-        <FlatList
-          data={events}
+        <SectionList
+          sections={sections}
           renderItem={renderEvent}
+          renderSectionHeader={({ section }) => (
+            <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>{section.title}</Text>
+          )}
           keyExtractor={(item) => item.id}
           contentContainerStyle={styles.list}
+          stickySectionHeadersEnabled={false}
         />
       )}
     </View>
@@ -114,12 +184,19 @@ const styles = StyleSheet.create({
     fontSize: 24,
     fontWeight: 'bold',
   },
+  headerButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   addButton: {
     backgroundColor: '#007AFF',
     paddingHorizontal: 16,
     paddingVertical: 8,
     borderRadius: 8,
   },
+  joinButton: {
+    backgroundColor: '#8E8E93',
+  },
   addButtonText: {
     color: '#fff',
     fontWeight: '600',
@@ -127,6 +204,12 @@ const styles = StyleSheet.create({
   list: {
     padding: 16,
   },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
   eventCard: {
     padding: 16,
     borderRadius: 8,
@@ -1,29 +1,238 @@
 import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { Image } from 'expo-image';
 import { useRouter } from 'expo-router';
-import { Alert, Platform, ScrollView, StyleSheet, Text, TouchableOpacity, View, useColorScheme } from 'react-native';
+import { createElement, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, Platform, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View, useColorScheme } from 'react-native';
 import { useAuth } from '../../contexts/AuthContext';
+import { useExchangeRates } from '../../contexts/ExchangeRatesContext';
 import { useInvitations } from '../../contexts/InvitationsContext';
 import { logOut } from '../../lib/auth';
+import { CURRENCIES, DEFAULT_CURRENCY } from '../../lib/currency';
 import {
-  EventWithInvitation,
+  createDependent,
+  deleteDependent,
+  Dependent,
+  setDependentAvatar,
+  subscribeToDependents,
+  updateDependent,
+} from '../../lib/firestore/dependents';
+import {
+  Invitation,
   acceptInvitation,
   rejectInvitation,
-} from '../../lib/firestore/events';
+} from '../../lib/firestore/invitations';
+import { ensurePersonalWishlist } from '../../lib/firestore/wishlists';
+import { ImageSource, PickedImage, pickImage, uploadAvatarImage } from '../../lib/images';
 import { getColors } from '../../lib/theme';
 
+// Managed profile being added (id null) or edited
+interface DependentForm {
+  id: string | null;
+  name: string;
+  birthday: Date | null;
+  avatarUrl?: string;
+  // New photo, uploaded when the form is saved
+  photo: PickedImage | null;
+  removePhoto: boolean;
+}
+
 export default function ProfileScreen() {
   const router = useRouter();
   const { user, userData } = useAuth();
   const { pendingInvitations } = useInvitations();
+  const { rates, setRate, resetRates } = useExchangeRates();
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
+  // Rates being typed, keyed by currency, saved when editing ends
+  const [rateDrafts, setRateDrafts] = useState<Record<string, string>>({});
+  const [dependents, setDependents] = useState<Dependent[]>([]);
+  const [dependentForm, setDependentForm] = useState<DependentForm | null>(null);
+  const [savingDependent, setSavingDependent] = useState(false);
+  const [showBirthdayPicker, setShowBirthdayPicker] = useState(false);
+  const [tempBirthday, setTempBirthday] = useState<Date>(new Date());
+
+  useEffect(() => {
+    if (!user) return;
+
+    const unsubscribe = subscribeToDependents(user.uid, setDependents);
+    return () => unsubscribe();
+  }, [user]);
+
+  const handleSaveRate = async (currency: string) => {
+    const draft = rateDrafts[currency];
+    if (draft === undefined) return;
+
+    setRateDrafts(({ [currency]: _saved, ...otherDrafts }) => otherDrafts);
+    const rate = parseFloat(draft.replace(',', '.'));
+    if (isNaN(rate) || rate <= 0) {
+      Alert.alert('Error', 'Please enter a rate greater than zero');
+      return;
+    }
 
-  const handleAcceptInvitation = async (event: EventWithInvitation) => {
-    if (!user?.uid || !user?.email) return;
+    try {
+      await setRate(currency, rate);
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
+  };
 
+  const handleResetRates = async () => {
     try {
-      await acceptInvitation(event.id, user.uid, user.email!);
-      router.push(`/events/${event.id}`);
+      setRateDrafts({});
+      await resetRates();
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  const handleOpenPersonalWishlist = async () => {
+    if (!user) return;
+
+    try {
+      const wishlistId = await ensurePersonalWishlist(user.uid);
+      router.push(`/wishlists/${wishlistId}`);
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  const handleOpenDependentForm = (dependent?: Dependent) => {
+    setDependentForm({
+      id: dependent?.id ?? null,
+      name: dependent?.displayName ?? '',
+      birthday: dependent?.birthday ? new Date(dependent.birthday.seconds * 1000) : null,
+      avatarUrl: dependent?.avatarUrl,
+      photo: null,
+      removePhoto: false,
+    });
+    setShowBirthdayPicker(false);
+  };
+
+  const handleCloseDependentForm = () => {
+    setDependentForm(null);
+    setShowBirthdayPicker(false);
+  };
+
+  const handleBirthdayChange = (event: any, selectedDate?: Date) => {
+    if (Platform.OS === 'android') {
+      setShowBirthdayPicker(false);
+      if (selectedDate) {
+        setDependentForm((form) => form && { ...form, birthday: selectedDate });
+      }
+    } else {
+      // iOS: update temp date as user scrolls
+      if (selectedDate) {
+        setTempBirthday(selectedDate);
+      }
+    }
+  };
+
+  const handleConfirmBirthday = () => {
+    setDependentForm((form) => form && { ...form, birthday: tempBirthday });
+    setShowBirthdayPicker(false);
+  };
+
+  const handlePickDependentPhoto = async (source: ImageSource) => {
+    try {
+      const photo = await pickImage(source);
+      if (photo) {
+        setDependentForm((form) => form && { ...form, photo, removePhoto: false });
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  const handleOpenDependentPhotoOptions = () => {
+    const hasPhoto = !!dependentForm?.photo || (!!dependentForm?.avatarUrl && !dependentForm.removePhoto);
+    Alert.alert(
+      hasPhoto ? 'Change Photo' : 'Add Photo',
+      undefined,
+      [
+        { text: 'Take Photo', onPress: () => handlePickDependentPhoto('camera') },
+        { text: 'Choose from Library', onPress: () => handlePickDependentPhoto('library') },
+        ...(hasPhoto
+          ? [{
+              text: 'Remove Photo',
+              style: 'destructive' as const,
+              onPress: () => setDependentForm((form) => form && { ...form, photo: null, removePhoto: true }),
+            }]
+          : []),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const handleSaveDependent = async () => {
+    if (!user || !dependentForm) return;
+
+    const name = dependentForm.name.trim();
+    if (!name) {
+      Alert.alert('Error', 'Please enter a name');
+      return;
+    }
+
+    setSavingDependent(true);
+    try {
+      let dependentId = dependentForm.id;
+      if (dependentId) {
+        await updateDependent(dependentId, { displayName: name, birthday: dependentForm.birthday });
+      } else {
+        dependentId = await createDependent(user.uid, name, dependentForm.birthday ?? undefined);
+      }
+
+      // The profile has to exist before its avatar can be uploaded
+      if (dependentForm.photo) {
+        const avatar = await uploadAvatarImage(dependentId, dependentForm.photo);
+        await setDependentAvatar(dependentId, avatar);
+      } else if (dependentForm.removePhoto) {
+        await setDependentAvatar(dependentId, null);
+      }
+      handleCloseDependentForm();
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    } finally {
+      setSavingDependent(false);
+    }
+  };
+
+  const handleDeleteDependent = () => {
+    const dependentId = dependentForm?.id;
+    if (!dependentId) return;
+
+    const confirmMessage = `Do you want to delete the profile of ${dependentForm.name || 'this person'}?`;
+    const deleteProfile = async () => {
+      try {
+        await deleteDependent(dependentId);
+        handleCloseDependentForm();
+      } catch (error: any) {
+        if (Platform.OS === 'web') {
+          alert(`Error: ${error.message}`);
+        } else {
+          Alert.alert('Error', error.message);
+        }
+      }
+    };
+
+    if (Platform.OS === 'web') {
+      if (window.confirm(confirmMessage)) {
+        deleteProfile();
+      }
+    } else {
+      Alert.alert('Delete Profile', confirmMessage, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: deleteProfile },
+      ]);
+    }
+  };
+
+  const handleAcceptInvitation = async (invitation: Invitation) => {
+    if (!user?.uid) return;
+
+    try {
+      await acceptInvitation(invitation, user.uid);
+      router.push(`/events/${invitation.eventId}`);
     } catch (error: any) {
       if (Platform.OS === 'web') {
         alert(`Error: ${error.message}`);
@@ -33,16 +242,14 @@ export default function ProfileScreen() {
     }
   };
 
-  const handleRejectInvitation = async (event: EventWithInvitation) => {
-    if (!user?.email) return;
-
-    const confirmMessage = `Do you want to reject the invitation to "${event.name}"?`;
+  const handleRejectInvitation = async (invitation: Invitation) => {
+    const confirmMessage = `Do you want to reject the invitation to "${invitation.eventName}"?`;
     
     // Use window.confirm on web, Alert.alert on native
     if (Platform.OS === 'web') {
       if (window.confirm(confirmMessage)) {
         try {
-          await rejectInvitation(event.id, user.email!);
+          await rejectInvitation(invitation);
           alert('Success! Invitation rejected.');
         } catch (error: any) {
           alert(`Error: ${error.message}`);
@@ -59,7 +266,7 @@ export default function ProfileScreen() {
             style: 'destructive',
             onPress: async () => {
               try {
-                await rejectInvitation(event.id, user.email!);
+                await rejectInvitation(invitation);
                 Alert.alert('Success', 'Invitation rejected');
               } catch (error: any) {
                 Alert.alert('Error', error.message);
@@ -107,18 +314,18 @@ export default function ProfileScreen() {
               <Text style={styles.badgeText}>{pendingInvitations.length}</Text>
             </View>
           </View>
-          {pendingInvitations.map((event) => (
-            <View key={event.id} style={[styles.invitationItem, { backgroundColor: colors.invitationBackground, borderColor: colors.invitationBorder }]}>
+          {pendingInvitations.map((invitation) => (
+            <View key={invitation.id} style={[styles.invitationItem, { backgroundColor: colors.invitationBackground, borderColor: colors.invitationBorder }]}>
               <View style={styles.invitationIconContainer}>
                 <Ionicons name="calendar" size={32} color={colors.primary} />
               </View>
               <View style={styles.invitationInfo}>
-                <Text style={[styles.invitationEventName, { color: colors.text }]}>{event.name}</Text>
-                {event.eventDate && (
+                <Text style={[styles.invitationEventName, { color: colors.text }]}>{invitation.eventName}</Text>
+                {invitation.eventDate && (
                   <View style={styles.invitationDateRow}>
                     <Ionicons name="time-outline" size={14} color={colors.textSecondary} />
                     <Text style={[styles.invitationEventDate, { color: colors.textSecondary }]}>
-                      {new Date(event.eventDate.seconds * 1000).toLocaleDateString()}
+                      {new Date(invitation.eventDate.seconds * 1000).toLocaleDateString()}
                     </Text>
                   </View>
                 )}
@@ -126,14 +333,14 @@ export default function ProfileScreen() {
               <View style={styles.invitationActions}>
                 <TouchableOpacity
                   style={styles.acceptButton}
-                  onPress={() => handleAcceptInvitation(event)}
+                  onPress={() => handleAcceptInvitation(invitation)}
                 >
                   <Ionicons name="checkmark-circle" size={18} color="#fff" />
                   <Text style={styles.acceptButtonText}>Accept</Text>
                 </TouchableOpacity>
                 <TouchableOpacity
                   style={[styles.rejectButton, { backgroundColor: colors.surfaceSecondary }]}
-                  onPress={() => handleRejectInvitation(event)}
+                  onPress={() => handleRejectInvitation(invitation)}
                 >
                   <Ionicons name="close-circle" size={18} color={colors.textSecondary} />
                   <Text style={[styles.rejectButtonText, { color: colors.textSecondary }]}>Reject</Text>
@@ -144,9 +351,220 @@ export default function ProfileScreen() {
         </View>
       )}
 
+      <TouchableOpacity
+        style={[styles.ratesCard, styles.personalWishlistCard, { backgroundColor: colors.surface }]}
+        onPress={handleOpenPersonalWishlist}
+      >
+        <Ionicons name="gift-outline" size={24} color={colors.primary} />
+        <View style={styles.dependentInfo}>
+          <Text style={[styles.ratesTitle, { color: colors.text }]}>My Wishlist</Text>
+          <Text style={[styles.ratesHint, styles.personalWishlistHint, { color: colors.textSecondary }]}>
+            Your wishes for every occasion. Share them into an event when creating a wishlist there.
+          </Text>
+        </View>
+        <Ionicons name="chevron-forward" size={20} color={colors.textTertiary} />
+      </TouchableOpacity>
+
+      <View style={[styles.ratesCard, { backgroundColor: colors.surface }]}>
+        <Text style={[styles.ratesTitle, { color: colors.text }]}>Managed Profiles</Text>
+        <Text style={[styles.ratesHint, { color: colors.textSecondary }]}>
+          For family members without an account, like kids. You can add them to your events
+          and make wishlists for them, but you won&apos;t see what was bought for them.
+        </Text>
+        {dependents.map((dependent) => (
+          <TouchableOpacity
+            key={dependent.id}
+            style={[styles.dependentRow, { borderBottomColor: colors.borderLight }]}
+            onPress={() => handleOpenDependentForm(dependent)}
+          >
+            {dependent.avatarUrl ? (
+              <Image source={{ uri: dependent.avatarUrl }} style={styles.dependentAvatar} />
+            ) : (
+              <View style={[styles.dependentAvatar, styles.dependentAvatarPlaceholder]}>
+                <Text style={styles.dependentAvatarText}>{dependent.displayName.charAt(0).toUpperCase()}</Text>
+              </View>
+            )}
+            <View style={styles.dependentInfo}>
+              <Text style={[styles.dependentName, { color: colors.text }]}>{dependent.displayName}</Text>
+              {dependent.birthday && (
+                <Text style={[styles.dependentBirthday, { color: colors.textSecondary }]}>
+                  Born {new Date(dependent.birthday.seconds * 1000).toLocaleDateString()}
+                </Text>
+              )}
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={colors.textTertiary} />
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity onPress={() => handleOpenDependentForm()}>
+          <Text style={[styles.resetRatesText, { color: colors.primary }]}>+ Add profile</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={[styles.ratesCard, { backgroundColor: colors.surface }]}>
+        <Text style={[styles.ratesTitle, { color: colors.text }]}>Exchange Rates</Text>
+        <Text style={[styles.ratesHint, { color: colors.textSecondary }]}>
+          Used to convert totals into an event&apos;s currency. Stored on this device only.
+        </Text>
+        {CURRENCIES.filter((code) => code !== DEFAULT_CURRENCY).map((code) => (
+          <View key={code} style={styles.rateRow}>
+            <Text style={[styles.rateLabel, { color: colors.text }]}>1 {DEFAULT_CURRENCY} =</Text>
+            <TextInput
+              style={[styles.rateInput, { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight, color: colors.text }]}
+              value={rateDrafts[code] ?? String(rates[code] ?? '')}
+              onChangeText={(text) => setRateDrafts((drafts) => ({ ...drafts, [code]: text }))}
+              onBlur={() => handleSaveRate(code)}
+              keyboardType="decimal-pad"
+            />
+            <Text style={[styles.rateCurrency, { color: colors.text }]}>{code}</Text>
+          </View>
+        ))}
+        <TouchableOpacity onPress={handleResetRates}>
+          <Text style={[styles.resetRatesText, { color: colors.primary }]}>Reset to defaults</Text>
+        </TouchableOpacity>
+      </View>
+
       <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
         <Text style={styles.logoutButtonText}>Sign Out</Text>
       </TouchableOpacity>
+
+      <Modal
+        visible={dependentForm !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={handleCloseDependentForm}
+      >
+        <View style={[styles.modal, { backgroundColor: 'rgba(0, 0, 0, 0.5)' }]}>
+          {dependentForm && (
+            <ScrollView
+              style={[styles.modalContent, { backgroundColor: colors.surface }]}
+              keyboardShouldPersistTaps="handled"
+            >
+              <Text style={[styles.modalTitle, { color: colors.text }]}>
+                {dependentForm.id ? 'Edit Profile' : 'Add Profile'}
+              </Text>
+
+              <TouchableOpacity style={styles.modalAvatarButton} onPress={handleOpenDependentPhotoOptions}>
+                {dependentForm.photo?.uri ?? (dependentForm.removePhoto ? undefined : dependentForm.avatarUrl) ? (
+                  <Image source={{ uri: dependentForm.photo?.uri ?? (dependentForm.removePhoto ? undefined : dependentForm.avatarUrl) }} style={styles.modalAvatar} />
+                ) : (
+                  <View style={[styles.modalAvatar, styles.dependentAvatarPlaceholder]}>
+                    <Ionicons name="camera" size={28} color="#fff" />
+                  </View>
+                )}
+                <Text style={[styles.resetRatesText, { color: colors.primary }]}>
+                  {dependentForm.photo || (dependentForm.avatarUrl && !dependentForm.removePhoto) ? 'Change photo' : 'Add photo'}
+                </Text>
+              </TouchableOpacity>
+
+              <Text style={[styles.modalLabel, { color: colors.text }]}>Name</Text>
+              <TextInput
+                style={[styles.modalInput, { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight, color: colors.text }]}
+                placeholder="Name"
+                placeholderTextColor={colors.textTertiary}
+                value={dependentForm.name}
+                onChangeText={(name) => setDependentForm((form) => form && { ...form, name })}
+              />
+
+              <Text style={[styles.modalLabel, { color: colors.text }]}>Birthday (Optional)</Text>
+              <TouchableOpacity
+                style={[styles.modalInput, { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight }]}
+                onPress={() => {
+                  setTempBirthday(dependentForm.birthday || new Date());
+                  setShowBirthdayPicker(true);
+                }}
+              >
+                <Text style={{ color: dependentForm.birthday ? colors.text : colors.textTertiary }}>
+                  {dependentForm.birthday ? dependentForm.birthday.toLocaleDateString() : 'Select a date'}
+                </Text>
+              </TouchableOpacity>
+
+              {showBirthdayPicker && (
+                <View style={styles.birthdayPicker}>
+                  {Platform.OS === 'web' ? (
+                    createElement('input', {
+                      type: 'date',
+                      value: tempBirthday.toISOString().split('T')[0],
+                      max: new Date().toISOString().split('T')[0],
+                      onChange: (e: any) => {
+                        if (e.target.value) {
+                          const selectedDate = new Date(e.target.value + 'T00:00:00');
+                          setTempBirthday(selectedDate);
+                          setDependentForm((form) => form && { ...form, birthday: selectedDate });
+                          setShowBirthdayPicker(false);
+                        }
+                      },
+                      style: {
+                        width: '100%',
+                        padding: '12px',
+                        fontSize: '16px',
+                        border: `1px solid ${colors.borderLight}`,
+                        borderRadius: '8px',
+                        backgroundColor: colors.surface,
+                        color: colors.text,
+                        cursor: 'pointer',
+                      },
+                    })
+                  ) : (
+                    <>
+                      {Platform.OS === 'ios' && (
+                        <View style={styles.birthdayPickerActions}>
+                          <TouchableOpacity onPress={() => setShowBirthdayPicker(false)}>
+                            <Text style={[styles.resetRatesText, { color: colors.primary }]}>Cancel</Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity onPress={handleConfirmBirthday}>
+                            <Text style={[styles.resetRatesText, styles.birthdayConfirmText, { color: colors.primary }]}>
+                              Confirm
+                            </Text>
+                          </TouchableOpacity>
+                        </View>
+                      )}
+                      <DateTimePicker
+                        value={tempBirthday}
+                        mode="date"
+                        display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                        onChange={handleBirthdayChange}
+                        maximumDate={new Date()}
+                      />
+                    </>
+                  )}
+                </View>
+              )}
+
+              {dependentForm.birthday && (
+                <TouchableOpacity onPress={() => setDependentForm((form) => form && { ...form, birthday: null })}>
+                  <Text style={[styles.resetRatesText, styles.clearBirthdayText, { color: colors.primary }]}>Clear birthday</Text>
+                </TouchableOpacity>
+              )}
+
+              <View style={styles.modalActions}>
+                <TouchableOpacity
+                  style={[styles.modalCancelButton, { backgroundColor: colors.surfaceSecondary }]}
+                  onPress={handleCloseDependentForm}
+                >
+                  <Text style={[styles.modalCancelButtonText, { color: colors.text }]}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.modalSaveButton, savingDependent && styles.buttonDisabled]}
+                  onPress={handleSaveDependent}
+                  disabled={savingDependent}
+                >
+                  {savingDependent ? (
+                    <ActivityIndicator color="#fff" size="small" />
+                  ) : (
+                    <Text style={styles.modalSaveButtonText}>Save</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+
+              {dependentForm.id && (
+                <TouchableOpacity style={styles.deleteDependentButton} onPress={handleDeleteDependent}>
+                  <Text style={[styles.deleteDependentText, { color: colors.error }]}>Delete Profile</Text>
+                </TouchableOpacity>
+              )}
+            </ScrollView>
+          )}
+        </View>
+      </Modal>
     </ScrollView>
   );
 }
@@ -309,6 +727,178 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  ratesCard: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  ratesTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  ratesHint: {
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  rateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  rateLabel: {
+    fontSize: 14,
+    width: 64,
+  },
+  rateInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 14,
+  },
+  rateCurrency: {
+    fontSize: 14,
+    fontWeight: '600',
+    width: 40,
+  },
+  resetRatesText: {
+    fontSize: 14,
+    marginTop: 4,
+  },
+  personalWishlistCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  personalWishlistHint: {
+    marginBottom: 0,
+  },
+  dependentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    marginBottom: 8,
+  },
+  dependentAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: 12,
+  },
+  dependentAvatarPlaceholder: {
+    backgroundColor: '#007AFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dependentAvatarText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  dependentInfo: {
+    flex: 1,
+  },
+  dependentName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  dependentBirthday: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  modal: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    borderRadius: 12,
+    padding: 20,
+    width: '90%',
+    maxWidth: 400,
+    maxHeight: '90%',
+    flexGrow: 0,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 20,
+  },
+  modalAvatarButton: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  modalAvatar: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    marginBottom: 8,
+  },
+  modalLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  modalInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  birthdayPicker: {
+    marginBottom: 16,
+  },
+  birthdayPickerActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  birthdayConfirmText: {
+    fontWeight: '600',
+  },
+  clearBirthdayText: {
+    marginTop: 0,
+    marginBottom: 16,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  modalCancelButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  modalCancelButtonText: {
+    fontWeight: '600',
+  },
+  modalSaveButton: {
+    flex: 1,
+    backgroundColor: '#007AFF',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  modalSaveButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  deleteDependentButton: {
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  deleteDependentText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   logoutButton: {
     backgroundColor: '#FF3B30',
     borderRadius: 8,
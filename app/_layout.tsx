@@ -5,6 +5,7 @@ import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { StatusBar } from 'expo-status-bar';
 import { AuthProvider, useAuth } from '../contexts/AuthContext';
+import { ExchangeRatesProvider } from '../contexts/ExchangeRatesContext';
 import { InvitationsProvider } from '../contexts/InvitationsContext';
 
 function RootLayoutNav() {
@@ -43,7 +44,9 @@ export default function RootLayout() {
       <SafeAreaProvider>
         <AuthProvider>
           <InvitationsProvider>
-            <RootLayoutNav />
+            <ExchangeRatesProvider>
+              <RootLayoutNav />
+            </ExchangeRatesProvider>
           </InvitationsProvider>
         </AuthProvider>
       </SafeAreaProvider>
@@ -1,12 +1,16 @@
 import { Ionicons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useEffect, useRef, useState } from 'react';
 import {
     ActivityIndicator,
     Alert,
+    Modal,
     Platform,
     ScrollView,
+    Share,
     StyleSheet,
+    Switch,
     Text,
     TextInput,
     TouchableOpacity,
@@ -16,13 +20,56 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '../../contexts/AuthContext';
 import { getUserData, UserData } from '../../lib/auth';
+import { CURRENCIES, DEFAULT_CURRENCY, formatPrice } from '../../lib/currency';
+import { describeUndoWindow, UNDO_WINDOW_DAYS } from '../../lib/deletion';
+import {
+    addDependentToEvent,
+    Dependent,
+    removeDependentFromEvent,
+    subscribeToDependents,
+} from '../../lib/firestore/dependents';
 import {
     deleteEvent,
+    ASSIGNABLE_EVENT_ROLES,
     Event,
-    inviteUserToEvent,
+    EVENT_ROLE_LABELS,
+    EventRole,
+    getEventRole,
+    isEventArchived,
+    isEventOrganizer,
     removeMemberFromEvent,
+    restoreEvent,
+    setMemberRole,
     subscribeToEvent,
+    transferEventOwnership,
+    updateEvent,
 } from '../../lib/firestore/events';
+import {
+    createInviteCode,
+    formatInviteCode,
+    getInviteCodeProblem,
+    getInviteLink,
+    INVITE_CODE_EXPIRY_DAYS,
+    InviteCode,
+    revokeInviteCode,
+    subscribeToInviteCodesForEvent,
+} from '../../lib/firestore/inviteCodes';
+import {
+    copyLegacyInvitations,
+    Invitation,
+    inviteUserToEvent,
+    migrateEventInvitations,
+    subscribeToInvitationsForEvent,
+} from '../../lib/firestore/invitations';
+import { getOwnerSuccessors, leaveEvent } from '../../lib/firestore/membership';
+import { rollOverEvent } from '../../lib/firestore/rollover';
+import {
+    describeRecurrence,
+    EventRecurrence,
+    getNextOccurrence,
+    isYearlyRecurrence,
+    YEARLY_RECURRENCE,
+} from '../../lib/recurrence';
 import { getColors } from '../../lib/theme';
 
 export default function EventDetailScreen() {
@@ -35,8 +82,24 @@ export default function EventDetailScreen() {
   const [loading, setLoading] = useState(true);
   const [inviteEmail, setInviteEmail] = useState('');
   const [inviting, setInviting] = useState(false);
+  const [giftLimitDraft, setGiftLimitDraft] = useState<string | null>(null);
   const [members, setMembers] = useState<Map<string, UserData>>(new Map());
   const loadingMembersRef = useRef<Set<string>>(new Set());
+  const [dependents, setDependents] = useState<Dependent[]>([]);
+  const [rollingOver, setRollingOver] = useState(false);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [inviteCodes, setInviteCodes] = useState<InviteCode[]>([]);
+  const [codeExpiryDays, setCodeExpiryDays] = useState(7);
+  const [codeMaxUses, setCodeMaxUses] = useState('');
+  const [creatingCode, setCreatingCode] = useState(false);
+  // Member whose role the owner is changing
+  const [roleMemberId, setRoleMemberId] = useState<string | null>(null);
+  const [showLeaveModal, setShowLeaveModal] = useState(false);
+  // Members the owner can hand the event to, null while loading
+  const [ownerSuccessors, setOwnerSuccessors] = useState<string[] | null>(null);
+  const [newOwnerId, setNewOwnerId] = useState<string | null>(null);
+  const [deleteOwnWishlists, setDeleteOwnWishlists] = useState(false);
+  const [leaving, setLeaving] = useState(false);
 
   useEffect(() => {
     if (!id) return;
@@ -56,6 +119,42 @@ export default function EventDetailScreen() {
     return () => unsubscribe();
   }, [id]);
 
+  useEffect(() => {
+    if (!id) return;
+
+    const unsubscribe = subscribeToInvitationsForEvent(id, setInvitations);
+    return () => unsubscribe();
+  }, [id]);
+
+  // Events created before invitations had their own collection still keep
+  // them on the event, the organizer moves them over. Other members copy
+  // them so invitees see them in the meantime.
+  const hasLegacyInvitations = !!event?.invitations;
+  const isOrganizer = !!user && !!event && isEventOrganizer(event, user.uid);
+  useEffect(() => {
+    if (!id || !hasLegacyInvitations) return;
+
+    (isOrganizer ? migrateEventInvitations(id) : copyLegacyInvitations(id)).catch((error) => {
+      console.error('Error migrating invitations:', error);
+    });
+  }, [id, hasLegacyInvitations, isOrganizer]);
+
+  // Only organizers can list invite codes
+  useEffect(() => {
+    if (!id || !isOrganizer) return;
+
+    const unsubscribe = subscribeToInviteCodesForEvent(id, setInviteCodes);
+    return () => unsubscribe();
+  }, [id, isOrganizer]);
+
+  // Managed profiles of the current user, which they can add to the event
+  useEffect(() => {
+    if (!user) return;
+
+    const unsubscribe = subscribeToDependents(user.uid, setDependents);
+    return () => unsubscribe();
+  }, [user]);
+
   const loadMemberDetails = async (memberIds: string[]) => {
     setMembers((prevMembers) => {
       const memberMap = new Map(prevMembers);
@@ -144,15 +243,14 @@ export default function EventDetailScreen() {
   };
 
   const handleDelete = async () => {
-    if (!id) return;
+    if (!id || !user) return;
 
+    const message = `Are you sure you want to delete this event? You can restore it from your events for ${UNDO_WINDOW_DAYS} days, then it is deleted for good along with its wishlists and assignments.`;
     if (Platform.OS === 'web') {
-      const confirmed = window.confirm(
-        'Are you sure you want to delete this event?'
-      );
+      const confirmed = window.confirm(message);
       if (confirmed) {
         try {
-          await deleteEvent(id);
+          await deleteEvent(id, user.uid);
           router.back();
         } catch (error: any) {
           window.alert(`Error: ${error.message}`);
@@ -161,7 +259,7 @@ export default function EventDetailScreen() {
     } else {
       Alert.alert(
         'Delete Event',
-        'Are you sure you want to delete this event?',
+        message,
         [
           { text: 'Cancel', style: 'cancel' },
           {
@@ -169,7 +267,7 @@ export default function EventDetailScreen() {
             style: 'destructive',
             onPress: async () => {
               try {
-                await deleteEvent(id);
+                await deleteEvent(id, user.uid);
                 router.back();
               } catch (error: any) {
                 Alert.alert('Error', error.message);
@@ -181,11 +279,331 @@ export default function EventDetailScreen() {
     }
   };
 
-  const handleRemoveMember = async (memberId: string) => {
+  const handleChangeCurrency = async (currency: string) => {
+    if (!id || !user) return;
+
+    try {
+      await updateEvent(id, user.uid, { currency });
+    } catch (error: any) {
+      if (Platform.OS === 'web') {
+        window.alert(`Error: ${error.message}`);
+      } else {
+        Alert.alert('Error', error.message);
+      }
+    }
+  };
+
+  const handleSaveGiftLimit = async () => {
+    if (!id || !user || giftLimitDraft === null) return;
+
+    const giftLimit = giftLimitDraft.trim() ? parseFloat(giftLimitDraft) : null;
+    setGiftLimitDraft(null);
+    if (giftLimit !== null && (isNaN(giftLimit) || giftLimit <= 0)) {
+      if (Platform.OS === 'web') {
+        window.alert('Error: Please enter a limit greater than zero');
+      } else {
+        Alert.alert('Error', 'Please enter a limit greater than zero');
+      }
+      return;
+    }
+
+    try {
+      await updateEvent(id, user.uid, { giftLimit });
+    } catch (error: any) {
+      if (Platform.OS === 'web') {
+        window.alert(`Error: ${error.message}`);
+      } else {
+        Alert.alert('Error', error.message);
+      }
+    }
+  };
+
+  const handleChangeRecurrence = async (recurrence: EventRecurrence | null) => {
+    if (!id || !user) return;
+
+    try {
+      await updateEvent(id, user.uid, { recurrence });
+    } catch (error: any) {
+      if (Platform.OS === 'web') {
+        window.alert(`Error: ${error.message}`);
+      } else {
+        Alert.alert('Error', error.message);
+      }
+    }
+  };
+
+  const shareInviteCode = async (code: string) => {
+    const message = `Join "${event?.name}" with invite code ${formatInviteCode(code)} or open ${getInviteLink(code)}`;
+    if (Platform.OS === 'web') {
+      // Not every browser can share, the prompt lets the link be copied
+      window.prompt('Copy the invite link', getInviteLink(code));
+      return;
+    }
+    try {
+      await Share.share({ message });
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  const handleCreateInviteCode = async () => {
+    if (!id || !user) return;
+
+    const maxUses = codeMaxUses.trim() ? parseInt(codeMaxUses, 10) : null;
+    if (maxUses !== null && (isNaN(maxUses) || maxUses < 1)) {
+      if (Platform.OS === 'web') {
+        window.alert('Error: Enter how many people can use the code, or leave it empty');
+      } else {
+        Alert.alert('Error', 'Enter how many people can use the code, or leave it empty');
+      }
+      return;
+    }
+
+    setCreatingCode(true);
+    try {
+      const code = await createInviteCode(id, user.uid, { expiresInDays: codeExpiryDays, maxUses });
+      setCodeMaxUses('');
+      await shareInviteCode(code);
+    } catch (error: any) {
+      if (Platform.OS === 'web') {
+        window.alert(`Error: ${error.message}`);
+      } else {
+        Alert.alert('Error', error.message);
+      }
+    } finally {
+      setCreatingCode(false);
+    }
+  };
+
+  const handleRevokeInviteCode = async (code: string) => {
+    const message = `Revoke invite code ${formatInviteCode(code)}? Nobody will be able to join with it anymore.`;
+
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) {
+        try {
+          await revokeInviteCode(code);
+        } catch (error: any) {
+          window.alert(`Error: ${error.message}`);
+        }
+      }
+    } else {
+      Alert.alert(
+        'Revoke Invite Code',
+        message,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Revoke',
+            style: 'destructive',
+            onPress: async () => {
+              try {
+                await revokeInviteCode(code);
+              } catch (error: any) {
+                Alert.alert('Error', error.message);
+              }
+            },
+          },
+        ]
+      );
+    }
+  };
+
+  const handleRollOver = async () => {
+    if (!id || !user || !event?.recurrence || !event.eventDate) return;
+
+    const nextDate = getNextOccurrence(event.eventDate.toDate(), event.recurrence);
+    const message = event.nextOccurrenceId
+      ? 'Copy the remaining wishlists into the next occurrence and archive this event?'
+      : `Create the ${nextDate.toLocaleDateString()} occurrence with the same members and the gifts nobody bought yet? This event is archived with its purchases and assignments.`;
+    const rollOver = async () => {
+      setRollingOver(true);
+      try {
+        const nextEventId = await rollOverEvent(id, user.uid);
+        router.replace(`/events/${nextEventId}`);
+      } finally {
+        setRollingOver(false);
+      }
+    };
+
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) {
+        try {
+          await rollOver();
+        } catch (error: any) {
+          window.alert(`Error: ${error.message}`);
+        }
+      }
+    } else {
+      Alert.alert(
+        'Roll Over Event',
+        message,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Roll Over',
+            onPress: async () => {
+              try {
+                await rollOver();
+              } catch (error: any) {
+                Alert.alert('Error', error.message);
+              }
+            },
+          },
+        ]
+      );
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!id || !user) return;
+
+    try {
+      await restoreEvent(id, user.uid);
+    } catch (error: any) {
+      if (Platform.OS === 'web') {
+        window.alert(`Error: ${error.message}`);
+      } else {
+        Alert.alert('Error', error.message);
+      }
+    }
+  };
+
+  const handleSetArchived = async (archived: boolean) => {
+    if (!id || !user) return;
+
+    try {
+      await updateEvent(id, user.uid, { archived });
+    } catch (error: any) {
+      if (Platform.OS === 'web') {
+        window.alert(`Error: ${error.message}`);
+      } else {
+        Alert.alert('Error', error.message);
+      }
+    }
+  };
+
+  const handleAddDependent = async (dependentId: string) => {
     if (!id) return;
 
+    try {
+      await addDependentToEvent(id, dependentId);
+    } catch (error: any) {
+      if (Platform.OS === 'web') {
+        window.alert(`Error: ${error.message}`);
+      } else {
+        Alert.alert('Error', error.message);
+      }
+    }
+  };
+
+  const handleChangeRole = async (memberId: string, role: Exclude<EventRole, 'owner'>) => {
+    if (!id || !user) return;
+
+    setRoleMemberId(null);
+    try {
+      await setMemberRole(id, memberId, role, user.uid);
+    } catch (error: any) {
+      if (Platform.OS === 'web') {
+        window.alert(`Error: ${error.message}`);
+      } else {
+        Alert.alert('Error', error.message);
+      }
+    }
+  };
+
+  const handleTransferOwnership = async (memberId: string) => {
+    if (!id || !user) return;
+
+    const memberData = members.get(memberId);
+    const memberName = memberData?.displayName || memberData?.email || 'this member';
+    const message = `Make ${memberName} the owner of this event? You will stay on as a co-organizer and can no longer delete the event or change roles.`;
+    const transfer = async () => {
+      setRoleMemberId(null);
+      await transferEventOwnership(id, memberId, user.uid);
+    };
+
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) {
+        try {
+          await transfer();
+        } catch (error: any) {
+          window.alert(`Error: ${error.message}`);
+        }
+      }
+    } else {
+      Alert.alert(
+        'Transfer Ownership',
+        message,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Transfer',
+            style: 'destructive',
+            onPress: async () => {
+              try {
+                await transfer();
+              } catch (error: any) {
+                Alert.alert('Error', error.message);
+              }
+            },
+          },
+        ]
+      );
+    }
+  };
+
+  const handleOpenLeave = async () => {
+    if (!id || !user || !event) return;
+
+    setNewOwnerId(null);
+    setDeleteOwnWishlists(false);
+    setOwnerSuccessors(null);
+    setShowLeaveModal(true);
+    if (getEventRole(event, user.uid) === 'owner') {
+      try {
+        setOwnerSuccessors(await getOwnerSuccessors(id, user.uid));
+      } catch (error: any) {
+        setShowLeaveModal(false);
+        if (Platform.OS === 'web') {
+          window.alert(`Error: ${error.message}`);
+        } else {
+          Alert.alert('Error', error.message);
+        }
+      }
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!id || !user) return;
+
+    setLeaving(true);
+    try {
+      await leaveEvent(id, user.uid, {
+        deleteWishlists: deleteOwnWishlists,
+        ...(newOwnerId && { newOwnerId }),
+      });
+      setShowLeaveModal(false);
+      router.replace('/(tabs)/events');
+    } catch (error: any) {
+      if (Platform.OS === 'web') {
+        window.alert(`Error: ${error.message}`);
+      } else {
+        Alert.alert('Error', error.message);
+      }
+    } finally {
+      setLeaving(false);
+    }
+  };
+
+  const handleRemoveMember = async (memberId: string) => {
+    if (!id || !user) return;
+
     const memberData = members.get(memberId);
     const memberName = memberData?.displayName || memberData?.email || 'this member';
+    // Managed profiles can also be removed by the member managing them
+    const removeMember = (eventId: string, removedId: string) => memberData?.managedBy
+      ? removeDependentFromEvent(eventId, removedId)
+      : removeMemberFromEvent(eventId, removedId, user.uid);
 
     if (Platform.OS === 'web') {
       const confirmed = window.confirm(
@@ -193,7 +611,7 @@ export default function EventDetailScreen() {
       );
       if (confirmed) {
         try {
-          await removeMemberFromEvent(id, memberId);
+          await removeMember(id, memberId);
         } catch (error: any) {
           window.alert(`Error: ${error.message}`);
         }
@@ -209,7 +627,7 @@ export default function EventDetailScreen() {
             style: 'destructive',
             onPress: async () => {
               try {
-                await removeMemberFromEvent(id, memberId);
+                await removeMember(id, memberId);
               } catch (error: any) {
                 Alert.alert('Error', error.message);
               }
@@ -237,7 +655,20 @@ export default function EventDetailScreen() {
     );
   }
 
-  const isCreator = event.createdBy === user?.uid;
+  const userRole = user ? getEventRole(event, user.uid) : null;
+  const isOwner = userRole === 'owner';
+  const isMember = event.members?.includes(user?.uid || '') || false;
+  // Archived events are read-only. Events archived by hand can be reopened
+  // until their date has passed or they were rolled over. Deleted events are
+  // read-only until the owner restores them.
+  const isArchived = isEventArchived(event);
+  const isDeleted = !!event.deletedAt;
+  const isReadOnly = isArchived || isDeleted;
+  const canUnarchive = !isDeleted && !!event.archivedAt && !event.nextOccurrenceId &&
+    !isEventArchived({ ...event, archivedAt: undefined });
+  const dependentsToAdd = dependents.filter(
+    (dependent) => !event.members?.includes(dependent.id)
+  );
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
@@ -254,23 +685,65 @@ export default function EventDetailScreen() {
             {event.eventDate && (
               <Text style={[styles.eventDate, { color: colors.textSecondary }]}>
                 {new Date(event.eventDate.seconds * 1000).toLocaleDateString()}
+                {event.recurrence && ` · ${describeRecurrence(event.recurrence)}`}
               </Text>
             )}
+            {(event.previousOccurrenceId || event.nextOccurrenceId) && (
+              <View style={styles.occurrenceLinks}>
+                {event.previousOccurrenceId && (
+                  <TouchableOpacity onPress={() => router.push(`/events/${event.previousOccurrenceId}`)}>
+                    <Text style={[styles.occurrenceLink, { color: colors.primary }]}>← Previous occurrence</Text>
+                  </TouchableOpacity>
+                )}
+                {event.nextOccurrenceId && (
+                  <TouchableOpacity onPress={() => router.push(`/events/${event.nextOccurrenceId}`)}>
+                    <Text style={[styles.occurrenceLink, { color: colors.primary }]}>Next occurrence →</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
           </View>
         </View>
       </View>
       <ScrollView>
 
+      {event.deletedAt ? (
+        <View style={[styles.archivedBanner, { backgroundColor: colors.surfaceSecondary }]}>
+          <Ionicons name="trash-outline" size={18} color={colors.error} />
+          <Text style={[styles.archivedBannerText, { color: colors.textSecondary }]}>
+            This event has been deleted. {describeUndoWindow(event.deletedAt.toDate())}.
+          </Text>
+          {isOwner && (
+            <TouchableOpacity onPress={handleRestore}>
+              <Text style={[styles.restoreText, { color: colors.primary }]}>Restore</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      ) : isArchived && (
+        <View style={[styles.archivedBanner, { backgroundColor: colors.surfaceSecondary }]}>
+          <Ionicons name="archive-outline" size={18} color={colors.textSecondary} />
+          <Text style={[styles.archivedBannerText, { color: colors.textSecondary }]}>
+            This event is over and kept as read-only history
+          </Text>
+        </View>
+      )}
+
       <View style={[styles.section, { backgroundColor: colors.surface, borderColor: colors.border }]}>
         <Text style={[styles.sectionTitle, { color: colors.text }]}>Members ({event.members?.length || 0})</Text>
         <View style={styles.membersList}>
           {event.members?.map((memberId) => {
             const memberData = members.get(memberId);
-            const canRemove = isCreator && memberId !== event.createdBy;
+            const memberRole = getEventRole(event, memberId);
+            // Owners remove anyone, co-organizers only members and viewers.
+            // Mirrors removeMemberFromEvent.
+            const canRemove = !isReadOnly && ((isOwner && memberId !== event.createdBy) ||
+              (isOrganizer && (memberRole === 'member' || memberRole === 'viewer')) ||
+              (!!user && memberData?.managedBy === user.uid));
+            const canChangeRole = isOwner && !isReadOnly && memberId !== event.createdBy;
             
             // Try to find email from accepted invitation if user data is not available
             // We'll use the first accepted invitation as a fallback (imperfect but better than nothing)
-            const acceptedInvitations = event.invitations?.filter(inv => inv.status === 'accepted') || [];
+            const acceptedInvitations = invitations.filter(inv => inv.status === 'accepted');
             const fallbackEmail = acceptedInvitations.length > 0 ? acceptedInvitations[0].email : null;
             
             // Determine display name and email
@@ -279,24 +752,74 @@ export default function EventDetailScreen() {
               (fallbackEmail ? fallbackEmail.split('@')[0] : null) ||
               (memberId.length > 20 ? memberId.substring(0, 8) + '...' : memberId);
             const displayEmail = memberData?.email || fallbackEmail || memberId;
+            // Managed profiles have no email, show who manages them instead
+            const managerName = memberData?.managedBy
+              ? (memberData.managedBy === user?.uid ? 'you' : members.get(memberData.managedBy)?.displayName || 'another member')
+              : null;
             
             return (
-              <View key={memberId} style={[styles.memberItem, { backgroundColor: colors.surfaceSecondary }]}>
-                <View style={styles.memberInfo}>
-                  <Text style={[styles.memberName, { color: colors.text }]}>
-                    {displayName}
-                  </Text>
-                  <Text style={[styles.memberEmail, { color: colors.textSecondary }]}>
-                    {displayEmail}
-                  </Text>
+              <View key={memberId}>
+                <View style={[styles.memberItem, { backgroundColor: colors.surfaceSecondary }]}>
+                  {memberData?.avatarUrl && (
+                    <Image source={{ uri: memberData.avatarUrl }} style={styles.memberAvatar} />
+                  )}
+                  <View style={styles.memberInfo}>
+                    <Text style={[styles.memberName, { color: colors.text }]}>
+                      {displayName}
+                    </Text>
+                    <Text style={[styles.memberEmail, { color: colors.textSecondary }]}>
+                      {managerName ? `Managed by ${managerName}` : displayEmail}
+                    </Text>
+                  </View>
+                  {memberRole && (canChangeRole || memberRole !== 'member') && (
+                    <TouchableOpacity
+                      style={[styles.roleBadge, { borderColor: colors.borderLight }]}
+                      onPress={() => setRoleMemberId(roleMemberId === memberId ? null : memberId)}
+                      disabled={!canChangeRole}
+                    >
+                      <Text style={[styles.roleBadgeText, { color: canChangeRole ? colors.primary : colors.textSecondary }]}>
+                        {EVENT_ROLE_LABELS[memberRole]}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                  {canRemove && (
+                    <TouchableOpacity
+                      style={styles.removeButton}
+                      onPress={() => handleRemoveMember(memberId)}
+                    >
+                      <Ionicons name="close-circle" size={24} color={colors.error} />
+                    </TouchableOpacity>
+                  )}
                 </View>
-                {canRemove && (
-                  <TouchableOpacity
-                    style={styles.removeButton}
-                    onPress={() => handleRemoveMember(memberId)}
-                  >
-                    <Ionicons name="close-circle" size={24} color={colors.error} />
-                  </TouchableOpacity>
+                {canChangeRole && roleMemberId === memberId && (
+                  <View style={[styles.currencyRow, styles.roleOptions]}>
+                    {ASSIGNABLE_EVENT_ROLES.map((role) => {
+                      const isSelected = memberRole === role;
+                      return (
+                        <TouchableOpacity
+                          key={role}
+                          style={[
+                            styles.currencyChip,
+                            { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight },
+                            isSelected && styles.currencyChipSelected,
+                          ]}
+                          onPress={() => handleChangeRole(memberId, role)}
+                        >
+                          <Text style={[styles.currencyChipText, { color: isSelected ? '#fff' : colors.text }]}>
+                            {EVENT_ROLE_LABELS[role]}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                    {!memberData?.managedBy && (
+                      <TouchableOpacity
+                        style={[styles.currencyChip, { backgroundColor: colors.surfaceSecondary, borderColor: colors.error }]}
+                        onPress={() => handleTransferOwnership(memberId)}
+                      >
+                        <Text style={[styles.currencyChipText, { color: colors.error }]}>Make Owner</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
                 )}
               </View>
             );
@@ -304,7 +827,24 @@ export default function EventDetailScreen() {
         </View>
       </View>
 
-      {isCreator && (
+      {isMember && !isReadOnly && dependentsToAdd.length > 0 && (
+        <View style={[styles.section, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Add Managed Profiles</Text>
+          <View style={styles.dependentsRow}>
+            {dependentsToAdd.map((dependent) => (
+              <TouchableOpacity
+                key={dependent.id}
+                style={[styles.dependentChip, { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight }]}
+                onPress={() => handleAddDependent(dependent.id)}
+              >
+                <Text style={[styles.dependentChipText, { color: colors.primary }]}>+ {dependent.displayName}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      )}
+
+      {isOrganizer && !isReadOnly && (
         <View style={[styles.section, { backgroundColor: colors.surface, borderColor: colors.border }]}>
           <Text style={[styles.sectionTitle, { color: colors.text }]}>Invite User</Text>
           <View style={styles.inviteRow}>
@@ -332,13 +872,209 @@ export default function EventDetailScreen() {
         </View>
       )}
 
-      {event.invitations?.filter((inv) => inv.status === 'pending').length > 0 && (
+      {isOrganizer && !isReadOnly && (
+        <View style={[styles.section, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Invite Links</Text>
+          <Text style={[styles.inviteCodeHint, { color: colors.textSecondary }]}>
+            Anyone with the link or code can join while it is valid
+          </Text>
+          <View style={styles.currencyRow}>
+            {INVITE_CODE_EXPIRY_DAYS.map((days) => {
+              const isSelected = codeExpiryDays === days;
+              return (
+                <TouchableOpacity
+                  key={days}
+                  style={[
+                    styles.currencyChip,
+                    { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight },
+                    isSelected && styles.currencyChipSelected,
+                  ]}
+                  onPress={() => setCodeExpiryDays(days)}
+                >
+                  <Text style={[styles.currencyChipText, { color: isSelected ? '#fff' : colors.text }]}>
+                    {days === 1 ? '1 day' : `${days} days`}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <View style={[styles.inviteRow, styles.inviteCodeRow]}>
+            <TextInput
+              style={[styles.inviteInput, { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight, color: colors.text }]}
+              placeholder="Max uses (unlimited)"
+              placeholderTextColor={colors.textTertiary}
+              value={codeMaxUses}
+              onChangeText={setCodeMaxUses}
+              keyboardType="number-pad"
+            />
+            <TouchableOpacity
+              style={[styles.inviteButton, creatingCode && styles.buttonDisabled]}
+              onPress={handleCreateInviteCode}
+              disabled={creatingCode}
+            >
+              {creatingCode ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <Text style={styles.inviteButtonText}>Create Link</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+          {inviteCodes.map((inviteCode) => {
+            const problem = getInviteCodeProblem(inviteCode);
+            return (
+              <View key={inviteCode.code} style={[styles.invitationItem, styles.inviteCodeItem, { backgroundColor: colors.surfaceSecondary }]}>
+                <View style={styles.memberInfo}>
+                  <Text style={[styles.inviteCodeText, { color: problem ? colors.textTertiary : colors.text }]}>
+                    {formatInviteCode(inviteCode.code)}
+                  </Text>
+                  <Text style={[styles.inviteCodeStatus, { color: colors.textSecondary }]}>
+                    {problem || `Expires ${inviteCode.expiresAt.toDate().toLocaleDateString()}`}
+                    {' · '}
+                    {inviteCode.maxUses === null
+                      ? `${inviteCode.uses} joined`
+                      : `${inviteCode.uses} of ${inviteCode.maxUses} joined`}
+                  </Text>
+                </View>
+                {!problem && (
+                  <>
+                    <TouchableOpacity
+                      style={styles.removeButton}
+                      onPress={() => shareInviteCode(inviteCode.code)}
+                    >
+                      <Ionicons name="share-outline" size={22} color={colors.primary} />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.removeButton}
+                      onPress={() => handleRevokeInviteCode(inviteCode.code)}
+                    >
+                      <Ionicons name="close-circle" size={24} color={colors.error} />
+                    </TouchableOpacity>
+                  </>
+                )}
+              </View>
+            );
+          })}
+        </View>
+      )}
+
+      {isOrganizer && !isReadOnly && (
+        <View style={[styles.section, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Currency</Text>
+          <View style={styles.currencyRow}>
+            {CURRENCIES.map((code) => {
+              const isSelected = (event.currency || DEFAULT_CURRENCY) === code;
+              return (
+                <TouchableOpacity
+                  key={code}
+                  style={[
+                    styles.currencyChip,
+                    { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight },
+                    isSelected && styles.currencyChipSelected,
+                  ]}
+                  onPress={() => handleChangeCurrency(code)}
+                >
+                  <Text style={[styles.currencyChipText, { color: isSelected ? '#fff' : colors.text }]}>
+                    {code}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <Text style={[styles.sectionTitle, styles.giftLimitTitle, { color: colors.text }]}>Gift Limit</Text>
+          <TextInput
+            style={[styles.giftLimitInput, { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight, color: colors.text }]}
+            placeholder={`No limit (amount in ${event.currency || DEFAULT_CURRENCY})`}
+            placeholderTextColor={colors.textTertiary}
+            value={giftLimitDraft ?? (event.giftLimit ? String(event.giftLimit) : '')}
+            onChangeText={setGiftLimitDraft}
+            onBlur={handleSaveGiftLimit}
+            keyboardType="decimal-pad"
+          />
+        </View>
+      )}
+
+      {isOrganizer && !isDeleted && event.eventDate && !event.nextOccurrenceId && (
+        <View style={[styles.section, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Repeats</Text>
+          <View style={styles.currencyRow}>
+            {[
+              { key: 'never', label: 'Never', recurrence: null },
+              { key: 'yearly', label: 'Every year', recurrence: YEARLY_RECURRENCE },
+              // Custom rules are set when creating the event and kept as they are
+              ...(event.recurrence && !isYearlyRecurrence(event.recurrence)
+                ? [{ key: 'custom', label: describeRecurrence(event.recurrence), recurrence: event.recurrence }]
+                : []),
+            ].map((option) => {
+              const isSelected = option.recurrence === null
+                ? !event.recurrence
+                : !!event.recurrence && describeRecurrence(event.recurrence) === describeRecurrence(option.recurrence);
+              return (
+                <TouchableOpacity
+                  key={option.key}
+                  style={[
+                    styles.currencyChip,
+                    { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight },
+                    isSelected && styles.currencyChipSelected,
+                  ]}
+                  onPress={() => handleChangeRecurrence(option.recurrence)}
+                >
+                  <Text style={[styles.currencyChipText, { color: isSelected ? '#fff' : colors.text }]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {event.recurrence && (
+            <TouchableOpacity
+              style={[styles.rollOverButton, rollingOver && styles.buttonDisabled]}
+              onPress={handleRollOver}
+              disabled={rollingOver}
+            >
+              {rollingOver ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.inviteButtonText}>Roll Over to Next Occurrence</Text>
+              )}
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {/* A roll-over that failed halfway links the next occurrence without archiving this one */}
+      {isOrganizer && !isDeleted && event.nextOccurrenceId && !event.archivedAt && (
+        <View style={[styles.section, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Repeats</Text>
+          <TouchableOpacity
+            style={[styles.rollOverButton, rollingOver && styles.buttonDisabled]}
+            onPress={handleRollOver}
+            disabled={rollingOver}
+          >
+            {rollingOver ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.inviteButtonText}>Finish Rolling Over</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {!isOrganizer && event.giftLimit && (
+        <View style={[styles.section, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Gift Limit</Text>
+          <Text style={{ color: colors.textSecondary }}>
+            Spend up to {formatPrice(event.giftLimit, event.currency || DEFAULT_CURRENCY)} per gift
+          </Text>
+        </View>
+      )}
+
+      {invitations.filter((inv) => inv.status === 'pending').length > 0 && (
         <View style={[styles.section, { backgroundColor: colors.surface, borderColor: colors.border }]}>
           <Text style={[styles.sectionTitle, { color: colors.text }]}>Pending Invitations</Text>
-          {event.invitations
-            ?.filter((inv) => inv.status === 'pending')
-            .map((inv, index) => (
-              <View key={index} style={[styles.invitationItem, { backgroundColor: colors.surfaceSecondary }]}>
+          {invitations
+            .filter((inv) => inv.status === 'pending')
+            .map((inv) => (
+              <View key={inv.id} style={[styles.invitationItem, { backgroundColor: colors.surfaceSecondary }]}>
                 <Text style={[styles.invitationEmail, { color: colors.text }]}>{inv.email}</Text>
                 <Text style={[styles.invitationStatus, { color: colors.textSecondary }]}>{inv.status}</Text>
               </View>
@@ -361,7 +1097,43 @@ export default function EventDetailScreen() {
           <Text style={styles.actionButtonText}>View Assignments</Text>
         </TouchableOpacity>
 
-        {isCreator && (
+        {isArchived && (
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => router.push(`/events/${id}/history`)}
+          >
+            <Text style={styles.actionButtonText}>View History</Text>
+          </TouchableOpacity>
+        )}
+
+        {isOrganizer && !isReadOnly && (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.secondaryActionButton]}
+            onPress={() => handleSetArchived(true)}
+          >
+            <Text style={styles.actionButtonText}>Archive Event</Text>
+          </TouchableOpacity>
+        )}
+
+        {isOrganizer && canUnarchive && (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.secondaryActionButton]}
+            onPress={() => handleSetArchived(false)}
+          >
+            <Text style={styles.actionButtonText}>Reopen Event</Text>
+          </TouchableOpacity>
+        )}
+
+        {isMember && !isDeleted && (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.secondaryActionButton]}
+            onPress={handleOpenLeave}
+          >
+            <Text style={styles.actionButtonText}>Leave Event</Text>
+          </TouchableOpacity>
+        )}
+
+        {isOwner && !isDeleted && (
           <TouchableOpacity
             style={[styles.actionButton, styles.deleteButton]}
             onPress={handleDelete}
@@ -371,6 +1143,80 @@ export default function EventDetailScreen() {
         )}
       </View>
       </ScrollView>
+
+      <Modal
+        visible={showLeaveModal}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setShowLeaveModal(false)}
+      >
+        <View style={[styles.modal, { backgroundColor: 'rgba(0, 0, 0, 0.5)' }]}>
+          <View style={[styles.modalContent, { backgroundColor: colors.surface }]}>
+            <Text style={[styles.modalTitle, { color: colors.text }]}>Leave Event</Text>
+            <Text style={[styles.modalText, { color: colors.textSecondary }]}>
+              Your managed profiles leave with you, and the assignments where you give or receive a gift are removed.
+            </Text>
+            {isOwner && (
+              ownerSuccessors === null ? (
+                <ActivityIndicator size="small" color={colors.primary} style={styles.modalText} />
+              ) : ownerSuccessors.length === 0 ? (
+                <Text style={[styles.modalText, { color: colors.error }]}>
+                  Nobody else can own this event. Delete the event instead.
+                </Text>
+              ) : (
+                <>
+                  <Text style={[styles.modalLabel, { color: colors.text }]}>New owner</Text>
+                  {ownerSuccessors.map((memberId) => {
+                    const isSelected = newOwnerId === memberId;
+                    return (
+                      <TouchableOpacity
+                        key={memberId}
+                        style={[
+                          styles.memberOption,
+                          { backgroundColor: colors.surfaceSecondary },
+                          isSelected && styles.currencyChipSelected,
+                        ]}
+                        onPress={() => setNewOwnerId(memberId)}
+                      >
+                        <Text style={[styles.memberOptionText, { color: isSelected ? '#fff' : colors.text }]}>
+                          {members.get(memberId)?.displayName || members.get(memberId)?.email || memberId}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </>
+              )
+            )}
+            <View style={styles.modalSwitchRow}>
+              <Text style={[styles.modalSwitchLabel, { color: colors.text }]}>Also delete my wishlists</Text>
+              <Switch value={deleteOwnWishlists} onValueChange={setDeleteOwnWishlists} />
+            </View>
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={[styles.modalCancelButton, { backgroundColor: colors.surfaceSecondary }]}
+                onPress={() => setShowLeaveModal(false)}
+                disabled={leaving}
+              >
+                <Text style={[styles.modalCancelButtonText, { color: colors.text }]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.modalLeaveButton,
+                  (leaving || (isOwner && !newOwnerId)) && styles.buttonDisabled,
+                ]}
+                onPress={handleLeave}
+                disabled={leaving || (isOwner && !newOwnerId)}
+              >
+                {leaving ? (
+                  <ActivityIndicator color="#fff" size="small" />
+                ) : (
+                  <Text style={styles.deleteButtonText}>Leave</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -407,6 +1253,39 @@ const styles = StyleSheet.create({
   eventDate: {
     fontSize: 16,
   },
+  archivedBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderRadius: 8,
+  },
+  archivedBannerText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  restoreText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  occurrenceLinks: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 8,
+  },
+  occurrenceLink: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rollOverButton: {
+    backgroundColor: '#007AFF',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 16,
+  },
   section: {
     padding: 16,
     marginTop: 12,
@@ -418,6 +1297,34 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginBottom: 12,
   },
+  giftLimitTitle: {
+    marginTop: 16,
+  },
+  giftLimitInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  currencyRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  currencyChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  currencyChipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  currencyChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   membersList: {
     gap: 8,
   },
@@ -428,6 +1335,12 @@ const styles = StyleSheet.create({
     padding: 12,
     borderRadius: 8,
   },
+  memberAvatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    marginRight: 12,
+  },
   memberInfo: {
     flex: 1,
   },
@@ -439,10 +1352,39 @@ const styles = StyleSheet.create({
   memberEmail: {
     fontSize: 14,
   },
+  roleBadge: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginLeft: 8,
+  },
+  roleBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  roleOptions: {
+    marginTop: 8,
+  },
   removeButton: {
     padding: 4,
     marginLeft: 8,
   },
+  dependentsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  dependentChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  dependentChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   inviteRow: {
     flexDirection: 'row',
     gap: 8,
@@ -475,6 +1417,26 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     marginBottom: 8,
   },
+  inviteCodeHint: {
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  inviteCodeRow: {
+    marginTop: 12,
+    marginBottom: 12,
+  },
+  inviteCodeItem: {
+    alignItems: 'center',
+  },
+  inviteCodeStatus: {
+    fontSize: 14,
+  },
+  inviteCodeText: {
+    fontSize: 16,
+    fontWeight: '600',
+    letterSpacing: 1,
+    marginBottom: 4,
+  },
   invitationEmail: {
     fontSize: 14,
   },
@@ -501,9 +1463,75 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  secondaryActionButton: {
+    backgroundColor: '#8E8E93',
+  },
   deleteButton: {
     backgroundColor: '#FF3B30',
   },
+  modal: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    borderRadius: 12,
+    padding: 20,
+    width: '90%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  modalText: {
+    fontSize: 14,
+    marginBottom: 16,
+  },
+  modalLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  memberOption: {
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  memberOptionText: {
+    fontSize: 16,
+  },
+  modalSwitchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+    marginBottom: 20,
+  },
+  modalSwitchLabel: {
+    fontSize: 16,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  modalCancelButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  modalCancelButtonText: {
+    fontWeight: '600',
+  },
+  modalLeaveButton: {
+    flex: 1,
+    backgroundColor: '#FF3B30',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
   deleteButtonText: {
     color: '#fff',
     fontSize: 16,
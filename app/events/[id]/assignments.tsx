@@ -1,35 +1,58 @@
 import { Ionicons } from '@expo/vector-icons';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useEffect, useRef, useState } from 'react';
-import { Alert, FlatList, Platform, StyleSheet, Text, TouchableOpacity, View, useColorScheme } from 'react-native';
+import { Alert, FlatList, Platform, ScrollView, StyleSheet, Switch, Text, TextInput, TouchableOpacity, View, useColorScheme } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '../../../contexts/AuthContext';
+import { useExchangeRates } from '../../../contexts/ExchangeRatesContext';
 import { getUserData, UserData } from '../../../lib/auth';
+import { ConvertedTotal, DEFAULT_CURRENCY, formatPrice, sumInCurrency } from '../../../lib/currency';
 import {
   Assignment,
   createAssignment,
   deleteAssignment,
+  drawAssignmentsForEvent,
+  getLastDrawSeed,
+  getManualAssignmentIds,
   subscribeToAssignmentsForEvent,
+  subscribeToAssignmentsForEventAndUser,
 } from '../../../lib/firestore/assignments';
 import {
+  Budget,
+  clearBudget,
+  getSpendingForEvent,
+  setBudget,
+  subscribeToBudget,
+} from '../../../lib/firestore/budgets';
+import { getHouseholdId } from '../../../lib/firestore/dependents';
+import {
+  canSeeAllAssignments,
   Event,
+  isEventArchived,
+  isEventOrganizer,
   subscribeToEvent,
+  updateEvent,
 } from '../../../lib/firestore/events';
+import { detachPurgedWishlists } from '../../../lib/firestore/purge';
 import {
+  getWishlistRecipientId,
   subscribeToWishlistsForEvent,
   Wishlist,
 } from '../../../lib/firestore/wishlists';
+import { DrawExclusion } from '../../../lib/secretSanta';
 import { getColors } from '../../../lib/theme';
 
 interface AssignmentWithDetails extends Assignment {
   wishlistName?: string;
   assignedToName?: string;
+  recipientName?: string;
 }
 
 export default function EventAssignmentsScreen() {
   const router = useRouter();
   const { id } = useLocalSearchParams<{ id: string }>();
   const { user } = useAuth();
+  const { rates } = useExchangeRates();
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const [assignments, setAssignments] = useState<AssignmentWithDetails[]>([]);
@@ -42,6 +65,15 @@ export default function EventAssignmentsScreen() {
   const [showAssignModal, setShowAssignModal] = useState(false);
   const [selectedWishlistId, setSelectedWishlistId] = useState<string>('');
   const [selectedUserId, setSelectedUserId] = useState<string>('');
+  const [showDrawModal, setShowDrawModal] = useState(false);
+  const [drawExclusions, setDrawExclusions] = useState<DrawExclusion[]>([]);
+  const [pendingExclusionMemberId, setPendingExclusionMemberId] = useState<string>('');
+  const [drawSeed, setDrawSeed] = useState('');
+  const [lastDrawSeed, setLastDrawSeed] = useState<string | null>(null);
+  const [drawing, setDrawing] = useState(false);
+  const [budget, setBudgetState] = useState<Budget | null>(null);
+  const [budgetDraft, setBudgetDraft] = useState<string | null>(null);
+  const [spending, setSpending] = useState<ConvertedTotal | null>(null);
 
   // Enrich assignments when raw assignments, wishlists, or members change
   useEffect(() => {
@@ -50,10 +82,20 @@ export default function EventAssignmentsScreen() {
         rawAssignments.map(async (assignment) => {
           const wishlist = wishlists.find((w) => w.id === assignment.wishlistId);
           const assignedToData = members.get(assignment.assignedTo);
+          const onBehalfOfData = assignment.onBehalfOf
+            ? members.get(assignment.onBehalfOf)
+            : undefined;
+          const assignedToName = assignedToData?.displayName || assignment.assignedTo;
+          const recipientData = assignment.recipientId
+            ? members.get(assignment.recipientId)
+            : undefined;
           return {
             ...assignment,
             wishlistName: wishlist?.name,
-            assignedToName: assignedToData?.displayName || assignment.assignedTo,
+            assignedToName: assignment.onBehalfOf
+              ? `${assignedToName} (for ${onBehalfOfData?.displayName || assignment.onBehalfOf})`
+              : assignedToName,
+            recipientName: recipientData?.displayName || assignment.recipientId || wishlist?.recipientName,
           };
         })
       );
@@ -84,18 +126,81 @@ export default function EventAssignmentsScreen() {
       setWishlists(wishlistsData);
     });
 
-    // Subscribe to assignments
-    const unsubscribeAssignments = subscribeToAssignmentsForEvent(id, (assignmentsData) => {
-      setRawAssignments(assignmentsData);
-    });
-
     return () => {
       unsubscribeEvent();
       unsubscribeWishlists();
-      unsubscribeAssignments();
     };
   }, [id, user]);
 
+  // Which assignments can be read depends on the event's visibility settings,
+  // so wait for the event before subscribing
+  const seesAllAssignments = event && user ? canSeeAllAssignments(event, user.uid) : null;
+
+  useEffect(() => {
+    if (!id || !user || seesAllAssignments === null) return;
+
+    const handleAssignments = (assignmentsData: Assignment[]) => {
+      setRawAssignments(assignmentsData);
+    };
+    const unsubscribeAssignments = seesAllAssignments
+      ? subscribeToAssignmentsForEvent(id, handleAssignments)
+      : subscribeToAssignmentsForEventAndUser(id, user.uid, handleAssignments);
+
+    return () => unsubscribeAssignments();
+  }, [id, user, seesAllAssignments]);
+
+  // Assignments still pointing at a purged wishlist are detached by their buyer
+  const detachedAssignmentIds = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!id || !user) return;
+
+    const pending = rawAssignments.filter(
+      (assignment) => assignment.wishlistId && !detachedAssignmentIds.current.has(assignment.id)
+    );
+    if (pending.length === 0) return;
+
+    pending.forEach((assignment) => detachedAssignmentIds.current.add(assignment.id));
+    detachPurgedWishlists(id, pending, user.uid).catch((error) => {
+      console.error('Error detaching purged wishlists:', error);
+    });
+  }, [id, user, rawAssignments]);
+
+  useEffect(() => {
+    if (!id || !user) return;
+
+    const unsubscribeBudget = subscribeToBudget(user.uid, id, setBudgetState);
+    return () => unsubscribeBudget();
+  }, [id, user]);
+
+  // Spending is shown in the budget's currency, or the event's if there's no budget
+  const eventCurrency = event?.currency || DEFAULT_CURRENCY;
+  const spendingCurrency = budget?.currency || eventCurrency;
+
+  useEffect(() => {
+    if (!id || !user) return;
+
+    let cancelled = false;
+    getSpendingForEvent(id, user.uid)
+      .then((entries) => {
+        if (cancelled) return;
+        setSpending(
+          sumInCurrency(
+            entries.map((entry) => ({ amount: entry.amount, currency: entry.currency || eventCurrency })),
+            spendingCurrency,
+            rates
+          )
+        );
+      })
+      .catch((error) => {
+        console.error('Error loading spending:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, user, wishlists, eventCurrency, spendingCurrency, rates]);
+
   const loadMemberDetails = async (memberIds: string[]) => {
     setMembers((prevMembers) => {
       const memberMap = new Map(prevMembers);
@@ -162,6 +267,8 @@ export default function EventAssignmentsScreen() {
   };
 
   const handleDeleteAssignment = async (assignmentId: string) => {
+    if (!id) return;
+
     Alert.alert(
       'Delete Assignment',
       'Are you sure you want to delete this assignment?',
@@ -172,7 +279,7 @@ export default function EventAssignmentsScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              await deleteAssignment(assignmentId);
+              await deleteAssignment(id, assignmentId);
               // Data will update automatically via real-time listeners
             } catch (error: any) {
               Alert.alert('Error', error.message);
@@ -183,19 +290,179 @@ export default function EventAssignmentsScreen() {
     );
   };
 
-  const isCreator = event?.createdBy === user?.uid;
+  const getMemberName = (memberId: string) =>
+    members.get(memberId)?.displayName || memberId;
+
+  const handleOpenDrawModal = () => {
+    setDrawExclusions(event?.drawExclusions || []);
+    setPendingExclusionMemberId('');
+    setDrawSeed('');
+    setShowDrawModal(true);
+
+    // Anyone who knows the seed can work out every pair, so blind organizers
+    // neither see nor pick it
+    if (id && seesAllAssignments) {
+      getLastDrawSeed(id)
+        .then(setLastDrawSeed)
+        .catch((error) => {
+          console.error('Error loading draw seed:', error);
+        });
+    }
+  };
+
+  const handleCloseDrawModal = () => {
+    setShowDrawModal(false);
+    setPendingExclusionMemberId('');
+    setDrawSeed('');
+  };
+
+  // Tapping two members in a row adds them as an exclusion pair
+  const handleSelectExclusionMember = (memberId: string) => {
+    if (!pendingExclusionMemberId) {
+      setPendingExclusionMemberId(memberId);
+      return;
+    }
+
+    if (pendingExclusionMemberId === memberId) {
+      setPendingExclusionMemberId('');
+      return;
+    }
+
+    const alreadyExcluded = drawExclusions.some(
+      (exclusion) =>
+        (exclusion.memberA === pendingExclusionMemberId && exclusion.memberB === memberId) ||
+        (exclusion.memberA === memberId && exclusion.memberB === pendingExclusionMemberId)
+    );
+    if (!alreadyExcluded) {
+      setDrawExclusions([
+        ...drawExclusions,
+        { memberA: pendingExclusionMemberId, memberB: memberId },
+      ]);
+    }
+    setPendingExclusionMemberId('');
+  };
+
+  const handleRemoveExclusion = (index: number) => {
+    setDrawExclusions(drawExclusions.filter((_, i) => i !== index));
+  };
+
+  const runDraw = async (replaceManualAssignments: boolean) => {
+    if (!id || !user) return;
+
+    setDrawing(true);
+    try {
+      const seed = await drawAssignmentsForEvent(id, user.uid, {
+        seed: (seesAllAssignments && drawSeed.trim()) || undefined,
+        exclusions: drawExclusions,
+        replaceManualAssignments,
+      });
+      handleCloseDrawModal();
+      if (seesAllAssignments) {
+        Alert.alert('Names drawn!', `Draw seed: ${seed}\nUse this seed to reproduce the same draw.`);
+      } else {
+        Alert.alert('Names drawn!', 'Everyone can now see who they are buying for.');
+      }
+      // Data will update automatically via real-time listeners
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    } finally {
+      setDrawing(false);
+    }
+  };
+
+  const handleDraw = () => {
+    // Blind organizers don't see every manual assignment, the event counts them
+    const manualAssignmentCount = event ? getManualAssignmentIds(event, rawAssignments).length : 0;
+
+    if (manualAssignmentCount === 0) {
+      runDraw(false);
+      return;
+    }
+
+    Alert.alert(
+      'Replace Assignments',
+      `This event already has ${manualAssignmentCount} manual assignment${manualAssignmentCount !== 1 ? 's' : ''}. Drawing names will delete ${manualAssignmentCount !== 1 ? 'them' : 'it'}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Draw Anyway',
+          style: 'destructive',
+          onPress: () => runDraw(true),
+        },
+      ]
+    );
+  };
+
+  const handleToggleBlind = async (enabled: boolean) => {
+    if (!id || !user) return;
+
+    try {
+      await updateEvent(id, user.uid, { assignmentVisibility: enabled ? 'blind' : 'open' });
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  const handleToggleOrganizerBlind = async (enabled: boolean) => {
+    if (!id || !user) return;
+
+    try {
+      await updateEvent(id, user.uid, { organizerBlind: enabled });
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  const handleSaveBudget = async () => {
+    if (!id || !user || budgetDraft === null) return;
+
+    const amount = budgetDraft.trim() ? parseFloat(budgetDraft) : null;
+    setBudgetDraft(null);
+    try {
+      if (amount === null) {
+        await clearBudget(user.uid, id);
+      } else if (isNaN(amount) || amount <= 0) {
+        Alert.alert('Error', 'Please enter a budget greater than zero');
+      } else {
+        await setBudget(user.uid, id, amount, eventCurrency);
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  // Owners and co-organizers run the draw. Assignments of archived events
+  // are kept as they are.
+  const canManage = !!event && !!user && isEventOrganizer(event, user.uid) && !isEventArchived(event);
+  const isBlind = event?.assignmentVisibility === 'blind';
   const unassignedWishlists = wishlists.filter(
     (w) => !assignments.some((a) => a.wishlistId === w.id)
   );
+  // The recipient of the selected wishlist can't be assigned to buy for themselves,
+  // and neither can anyone in their household. Managed profiles can be picked,
+  // their manager buys on their behalf.
+  const selectedWishlist = wishlists.find((w) => w.id === selectedWishlistId);
+  const selectedRecipientId = selectedWishlist ? getWishlistRecipientId(selectedWishlist) : null;
+  const selectedHouseholdId = selectedRecipientId
+    ? getHouseholdId(selectedRecipientId, members.get(selectedRecipientId))
+    : null;
   const availableMembers = event?.members?.filter(
-    (memberId) => memberId !== user?.uid
+    (memberId) => memberId !== user?.uid &&
+      getHouseholdId(memberId, members.get(memberId)) !== selectedHouseholdId
   ) || [];
 
   const renderAssignment = ({ item }: { item: AssignmentWithDetails }) => (
     <View style={[styles.assignmentCard, { backgroundColor: colors.surface }]}>
       <View style={styles.assignmentHeader}>
         <View style={styles.assignmentInfo}>
-          <Text style={[styles.wishlistName, { color: colors.text }]}>{item.wishlistName || 'Unknown'}</Text>
+          <Text style={[styles.wishlistName, { color: colors.text }]}>
+            {item.wishlistName || (item.recipientName ? `Gift for ${item.recipientName}` : 'Unknown')}
+          </Text>
+          {item.wishlistName && item.recipientName && (
+            <Text style={[styles.assignedTo, { color: colors.textSecondary }]}>
+              For: {item.recipientName}
+            </Text>
+          )}
           <Text style={[styles.assignedTo, { color: colors.textSecondary }]}>
             Assigned to: {item.assignedToName || item.assignedTo}
           </Text>
@@ -203,7 +470,7 @@ export default function EventAssignmentsScreen() {
             Status: {item.status === 'purchased' ? '✅ Purchased' : '⏳ Pending'}
           </Text>
         </View>
-        {isCreator && (
+        {canManage && (
           <TouchableOpacity
             style={styles.deleteButton}
             onPress={() => handleDeleteAssignment(item.id)}
@@ -227,16 +494,159 @@ export default function EventAssignmentsScreen() {
           </TouchableOpacity>
           <Text style={[styles.title, { color: colors.text }]}>Assignments</Text>
         </View>
-        {isCreator && (
-          <TouchableOpacity
-            style={styles.addButton}
-            onPress={() => setShowAssignModal(true)}
+        {canManage && (
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              style={[styles.addButton, styles.drawButton]}
+              onPress={handleOpenDrawModal}
+            >
+              <Text style={styles.addButtonText}>Draw Names</Text>
+            </TouchableOpacity>
+            {seesAllAssignments && (
+              <TouchableOpacity
+                style={styles.addButton}
+                onPress={() => setShowAssignModal(true)}
+              >
+                <Text style={styles.addButtonText}>+ Assign</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+
+      {canManage && (
+        <View style={[styles.visibilitySection, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+          <View style={styles.visibilityRow}>
+            <Text style={[styles.visibilityLabel, { color: colors.text }]}>Blind assignments</Text>
+            <Switch value={isBlind} onValueChange={handleToggleBlind} />
+          </View>
+          {isBlind && (
+            <View style={styles.visibilityRow}>
+              <Text style={[styles.visibilityLabel, { color: colors.text }]}>Hide assignments from organizers too</Text>
+              <Switch value={event?.organizerBlind || false} onValueChange={handleToggleOrganizerBlind} />
+            </View>
+          )}
+        </View>
+      )}
+
+      {seesAllAssignments === false && (
+        <Text style={[styles.visibilityNotice, { color: colors.textSecondary }]}>
+          Assignments are blind: you can only see who you are buying for.
+        </Text>
+      )}
+
+      <View style={[styles.budgetSection, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+        <View style={styles.visibilityRow}>
+          <Text style={[styles.visibilityLabel, { color: colors.text }]}>My budget (private)</Text>
+          <TextInput
+            style={[styles.budgetInput, { backgroundColor: colors.surfaceSecondary, borderColor: colors.border, color: colors.text }]}
+            placeholder={`None (${eventCurrency})`}
+            placeholderTextColor={colors.textTertiary}
+            value={budgetDraft ?? (budget ? String(budget.amount) : '')}
+            onChangeText={setBudgetDraft}
+            onBlur={handleSaveBudget}
+            keyboardType="decimal-pad"
+          />
+        </View>
+        {spending && (
+          <Text
+            style={[
+              styles.budgetSpent,
+              { color: budget && spending.total > budget.amount ? colors.error : colors.textSecondary },
+            ]}
           >
-            <Text style={styles.addButtonText}>+ Assign</Text>
-          </TouchableOpacity>
+            Spent {spending.converted ? '≈ ' : ''}{formatPrice(spending.total, spendingCurrency)}
+            {budget && ` of ${formatPrice(budget.amount, budget.currency)}`}
+            {event?.giftLimit ? ` • Gift limit ${formatPrice(event.giftLimit, eventCurrency)}` : ''}
+          </Text>
         )}
       </View>
 
+      {showDrawModal && (
+        <View style={[styles.modal, { backgroundColor: 'rgba(0, 0, 0, 0.5)' }]}>
+          <View style={[styles.modalContent, { backgroundColor: colors.surface }]}>
+            <ScrollView>
+              <Text style={[styles.modalTitle, { color: colors.text }]}>Draw Names</Text>
+              <Text style={[styles.emptySubtext, { color: colors.textSecondary }]}>
+                Everyone gives a gift to exactly one other member.
+              </Text>
+
+              <Text style={[styles.modalLabel, { color: colors.text }]}>Exclusions</Text>
+              <Text style={[styles.emptySubtext, { color: colors.textSecondary }]}>
+                Tap two members who should not draw each other (e.g. couples).
+                Managed profiles never draw the person managing them or each other.
+              </Text>
+              <View style={[styles.selectContainer, styles.drawSelectContainer]}>
+                {(event?.members || []).map((memberId) => (
+                  <TouchableOpacity
+                    key={memberId}
+                    style={[
+                      styles.selectOption,
+                      { backgroundColor: colors.surfaceSecondary },
+                      pendingExclusionMemberId === memberId && { backgroundColor: colors.primary },
+                    ]}
+                    onPress={() => handleSelectExclusionMember(memberId)}
+                  >
+                    <Text
+                      style={[
+                        styles.selectOptionText,
+                        { color: colors.text },
+                        pendingExclusionMemberId === memberId && styles.selectOptionTextSelected,
+                      ]}
+                    >
+                      {getMemberName(memberId)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {drawExclusions.map((exclusion, index) => (
+                <View
+                  key={`${exclusion.memberA}-${exclusion.memberB}`}
+                  style={[styles.exclusionRow, { backgroundColor: colors.surfaceSecondary }]}
+                >
+                  <Text style={[styles.selectOptionText, { color: colors.text }]}>
+                    {getMemberName(exclusion.memberA)} ↔ {getMemberName(exclusion.memberB)}
+                  </Text>
+                  <TouchableOpacity onPress={() => handleRemoveExclusion(index)}>
+                    <Ionicons name="close-circle" size={20} color={colors.error} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+
+              {seesAllAssignments && (
+                <>
+                  <Text style={[styles.modalLabel, { color: colors.text }]}>Seed (optional)</Text>
+                  <TextInput
+                    style={[styles.seedInput, { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight, color: colors.text }]}
+                    placeholder={lastDrawSeed ? `Last draw: ${lastDrawSeed}` : 'Leave blank for a random draw'}
+                    placeholderTextColor={colors.textTertiary}
+                    value={drawSeed}
+                    onChangeText={setDrawSeed}
+                    autoCapitalize="none"
+                  />
+                </>
+              )}
+
+              <View style={styles.modalActions}>
+                <TouchableOpacity
+                  style={[styles.cancelButton, { backgroundColor: colors.surfaceSecondary }]}
+                  onPress={handleCloseDrawModal}
+                >
+                  <Text style={[styles.cancelButtonText, { color: colors.text }]}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.createButton}
+                  onPress={handleDraw}
+                  disabled={drawing}
+                >
+                  <Text style={styles.createButtonText}>{drawing ? 'Drawing...' : 'Draw'}</Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </View>
+        </View>
+      )}
+
       {showAssignModal && (
         <View style={[styles.modal, { backgroundColor: 'rgba(0, 0, 0, 0.5)' }]}>
           <View style={[styles.modalContent, { backgroundColor: colors.surface }]}>
@@ -296,6 +706,7 @@ export default function EventAssignmentsScreen() {
                         ]}
                       >
                         {memberData?.displayName || memberId}
+                        {memberData?.managedBy && ` (via ${getMemberName(memberData.managedBy)})`}
                       </Text>
                     </TouchableOpacity>
                   );
@@ -332,7 +743,7 @@ export default function EventAssignmentsScreen() {
       ) : assignments.length === 0 ? (
         <View style={styles.center}>
           <Text style={[styles.emptyText, { color: colors.textSecondary }]}>No assignments yet</Text>
-          {isCreator && (
+          {canManage && (
             <Text style={[styles.emptySubtext, { color: colors.textTertiary }]}>
               Assign wishlists to members to get started!
             </Text>
@@ -388,6 +799,51 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontWeight: '600',
   },
+  visibilitySection: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  visibilityRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  visibilityLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  budgetSection: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  budgetInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    minWidth: 120,
+    fontSize: 14,
+    textAlign: 'right',
+  },
+  budgetSpent: {
+    fontSize: 13,
+    paddingVertical: 4,
+  },
+  visibilityNotice: {
+    fontSize: 13,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  drawButton: {
+    backgroundColor: '#AF52DE',
+  },
   list: {
     padding: 16,
   },
@@ -512,6 +968,27 @@ const styles = StyleSheet.create({
     color: '#007AFF',
     fontWeight: '600',
   },
+  drawSelectContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    maxHeight: undefined,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  exclusionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 6,
+  },
+  seedInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+  },
   modalActions: {
     flexDirection: 'row',
     gap: 12,
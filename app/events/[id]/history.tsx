@@ -0,0 +1,339 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuth } from '../../../contexts/AuthContext';
+import { getUserData, UserData } from '../../../lib/auth';
+import { Event, isEventArchived, isEventOrganizer, subscribeToEvent, updateEvent } from '../../../lib/firestore/events';
+import { EventHistory, getEventHistory, GiftRecord } from '../../../lib/firestore/history';
+import { getColors } from '../../../lib/theme';
+
+export default function EventHistoryScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user } = useAuth();
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const [event, setEvent] = useState<Event | null>(null);
+  const [history, setHistory] = useState<EventHistory | null>(null);
+  const [names, setNames] = useState<Map<string, UserData>>(new Map());
+  const [error, setError] = useState<string | null>(null);
+  const [revealing, setRevealing] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const unsubscribe = subscribeToEvent(id, setEvent);
+    return () => unsubscribe();
+  }, [id]);
+
+  const isRevealed = !!event?.revealedAt;
+
+  // Purchases are only readable by everyone after the reveal
+  useEffect(() => {
+    if (!id || !isRevealed) return;
+
+    getEventHistory(id)
+      .then(async (eventHistory) => {
+        setHistory(eventHistory);
+        const userIds = new Set<string>();
+        eventHistory.gifts.forEach((gift) => {
+          gift.giverIds.forEach((giverId) => userIds.add(giverId));
+          if (gift.recipientId) userIds.add(gift.recipientId);
+        });
+        eventHistory.draws.forEach((draw) => {
+          userIds.add(draw.giverId);
+          if (draw.onBehalfOf) userIds.add(draw.onBehalfOf);
+          if (draw.recipientId) userIds.add(draw.recipientId);
+        });
+        const results = await Promise.all(
+          Array.from(userIds).map(async (userId) => [userId, await getUserData(userId)] as const)
+        );
+        setNames(new Map(
+          results.flatMap(([userId, userData]) => (userData ? [[userId, userData] as const] : []))
+        ));
+      })
+      .catch((err) => {
+        console.error('Error loading event history:', err);
+        setError(err.message);
+      });
+  }, [id, isRevealed]);
+
+  const getName = (userId: string | null, fallback?: string) => {
+    if (!userId) return fallback || 'Someone';
+    if (userId === user?.uid) return 'You';
+    return names.get(userId)?.displayName || fallback || 'Unknown';
+  };
+
+  const handleReveal = async () => {
+    if (!id || !user) return;
+
+    const message = 'Everyone in the event will see who gave what to whom, including the purchases on their own wishlists.';
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) {
+        setRevealing(true);
+        try {
+          await updateEvent(id, user.uid, { revealed: true });
+        } catch (err: any) {
+          window.alert(`Error: ${err.message}`);
+        } finally {
+          setRevealing(false);
+        }
+      }
+    } else {
+      Alert.alert(
+        'Reveal Gifts',
+        message,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Reveal',
+            onPress: async () => {
+              setRevealing(true);
+              try {
+                await updateEvent(id, user.uid, { revealed: true });
+              } catch (err: any) {
+                Alert.alert('Error', err.message);
+              } finally {
+                setRevealing(false);
+              }
+            },
+          },
+        ]
+      );
+    }
+  };
+
+  // Gifts grouped by who received them
+  const giftsByRecipient = new Map<string, GiftRecord[]>();
+  history?.gifts.forEach((gift) => {
+    const key = gift.recipientId ?? `named:${gift.recipientName}`;
+    giftsByRecipient.set(key, [...(giftsByRecipient.get(key) || []), gift]);
+  });
+
+  const renderContent = () => {
+    if (!event) {
+      return <ActivityIndicator size="large" style={styles.loading} />;
+    }
+    if (!isEventArchived(event)) {
+      return (
+        <View style={styles.center}>
+          <Text style={[styles.emptyText, { color: colors.textSecondary }]}>No history yet</Text>
+          <Text style={[styles.emptySubtext, { color: colors.textTertiary }]}>
+            The history is kept once the event is over
+          </Text>
+        </View>
+      );
+    }
+    if (!isRevealed) {
+      const isOrganizer = !!user && isEventOrganizer(event, user.uid);
+      return (
+        <View style={styles.center}>
+          <Text style={[styles.emptyText, { color: colors.textSecondary }]}>Not revealed yet</Text>
+          <Text style={[styles.emptySubtext, { color: colors.textTertiary }]}>
+            {isOrganizer
+              ? 'Reveal the gifts to show everyone who gave what to whom'
+              : 'The organizer has not revealed who gave what to whom yet'}
+          </Text>
+          {isOrganizer && (
+            <TouchableOpacity
+              style={[styles.revealButton, revealing && styles.buttonDisabled]}
+              onPress={handleReveal}
+              disabled={revealing}
+            >
+              {revealing ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.revealButtonText}>Reveal Gifts</Text>
+              )}
+            </TouchableOpacity>
+          )}
+        </View>
+      );
+    }
+    if (error) {
+      return (
+        <View style={styles.center}>
+          <Text style={[styles.emptyText, { color: colors.error }]}>Error: {error}</Text>
+        </View>
+      );
+    }
+    if (!history) {
+      return <ActivityIndicator size="large" style={styles.loading} />;
+    }
+
+    return (
+      <ScrollView contentContainerStyle={styles.list}>
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>Gifts</Text>
+        {giftsByRecipient.size === 0 && (
+          <Text style={[styles.emptySubtext, { color: colors.textTertiary }]}>Nothing was bought</Text>
+        )}
+        {Array.from(giftsByRecipient.entries()).map(([key, gifts]) => (
+          <View key={key} style={[styles.card, { backgroundColor: colors.surface }]}>
+            <Text style={[styles.cardTitle, { color: colors.text }]}>
+              For {getName(gifts[0].recipientId, gifts[0].recipientName)}
+            </Text>
+            {gifts.map((gift, index) => (
+              <View key={index} style={styles.giftRow}>
+                <Text style={[styles.giftName, { color: colors.text }]}>
+                  {gift.itemName}
+                  {gift.quantity > 1 && ` × ${gift.quantity}`}
+                  {gift.status === 'delivered' && ' 🎁'}
+                </Text>
+                <Text style={[styles.giftFrom, { color: colors.textSecondary }]}>
+                  from {gift.giverIds.map((giverId) => getName(giverId)).join(', ')}
+                </Text>
+              </View>
+            ))}
+          </View>
+        ))}
+
+        {history.draws.length > 0 && (
+          <>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>Assignments</Text>
+            <View style={[styles.card, { backgroundColor: colors.surface }]}>
+              {history.draws.map((draw, index) => (
+                <Text key={index} style={[styles.drawRow, { color: colors.text }]}>
+                  {getName(draw.giverId)}
+                  {draw.onBehalfOf && ` (for ${getName(draw.onBehalfOf)})`}
+                  {' → '}
+                  {draw.recipientId ? getName(draw.recipientId) : draw.wishlistName || 'Someone'}
+                </Text>
+              ))}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+      <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+        <View style={styles.headerLeft}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => router.back()}
+          >
+            <Ionicons name="arrow-back" size={24} color={colors.primary} />
+          </TouchableOpacity>
+          <Text style={[styles.title, { color: colors.text }]}>History</Text>
+        </View>
+      </View>
+      {renderContent()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  backButton: {
+    marginRight: 12,
+    padding: 4,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  loading: {
+    marginTop: 40,
+  },
+  list: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  card: {
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 12,
+    ...Platform.select({
+      web: {
+        boxShadow: '0px 2px 4px rgba(0, 0, 0, 0.1)',
+      },
+      default: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+        elevation: 3,
+      },
+    }),
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  giftRow: {
+    marginBottom: 8,
+  },
+  giftName: {
+    fontSize: 16,
+  },
+  giftFrom: {
+    fontSize: 14,
+  },
+  drawRow: {
+    fontSize: 16,
+    marginBottom: 6,
+  },
+  center: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  emptyText: {
+    fontSize: 18,
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  revealButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginTop: 20,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  revealButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
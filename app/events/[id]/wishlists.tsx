@@ -1,18 +1,49 @@
 import { Ionicons } from '@expo/vector-icons';
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import { useEffect, useState } from 'react';
-import { FlatList, Platform, StyleSheet, Text, TouchableOpacity, useColorScheme, View } from 'react-native';
+import { useEffect, useRef, useState } from 'react';
+import { Alert, FlatList, Platform, StyleSheet, Text, TouchableOpacity, useColorScheme, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { subscribeToWishlistsForEvent, Wishlist } from '../../../lib/firestore/wishlists';
+import { useAuth } from '../../../contexts/AuthContext';
+import { useExchangeRates } from '../../../contexts/ExchangeRatesContext';
+import { getUserData, UserData } from '../../../lib/auth';
+import { DEFAULT_CURRENCY, formatPrice } from '../../../lib/currency';
+import { describeUndoWindow } from '../../../lib/deletion';
+import { canContributeToEvent, Event, isEventArchived, subscribeToEvent } from '../../../lib/firestore/events';
+import { canPurgeWishlist, purgeWishlist } from '../../../lib/firestore/purge';
+import {
+  canSeeClaims,
+  getFundingProgress,
+  getItemFulfilment,
+  getWishlistRecipientId,
+  getWishlistTotal,
+  ItemClaim,
+  ItemPledge,
+  migrateEmbeddedItems,
+  restoreWishlist,
+  subscribeToClaimsForWishlist,
+  subscribeToDeletedWishlistsForEvent,
+  subscribeToPledgesForWishlist,
+  subscribeToWishlistsForEvent,
+  Wishlist,
+} from '../../../lib/firestore/wishlists';
 import { getColors } from '../../../lib/theme';
 
 export default function EventWishlistsScreen() {
   const router = useRouter();
   const { id } = useLocalSearchParams<{ id: string }>();
+  const { user } = useAuth();
+  const { rates } = useExchangeRates();
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const [wishlists, setWishlists] = useState<Wishlist[]>([]);
+  const [event, setEvent] = useState<Event | null>(null);
   const [loading, setLoading] = useState(true);
+  const [claimsByWishlist, setClaimsByWishlist] = useState<Map<string, ItemClaim[]>>(new Map());
+  const [pledgesByWishlist, setPledgesByWishlist] = useState<Map<string, ItemPledge[]>>(new Map());
+  const [recipients, setRecipients] = useState<Map<string, UserData>>(new Map());
+  const [deletedWishlists, setDeletedWishlists] = useState<Wishlist[]>([]);
+  const purgingWishlistIds = useRef(new Set<string>());
+  const migratingWishlistIds = useRef(new Set<string>());
 
   useEffect(() => {
     if (!id) return;
@@ -26,21 +57,191 @@ export default function EventWishlistsScreen() {
     return () => unsubscribe();
   }, [id]);
 
-  const renderWishlist = ({ item }: { item: Wishlist }) => (
-    <TouchableOpacity
-      style={[styles.wishlistCard, { backgroundColor: colors.surface }]}
-      onPress={() => router.push(`/wishlists/${item.id}`)}
-    >
-      <Text style={[styles.wishlistName, { color: colors.text }]}>{item.name}</Text>
-      <Text style={[styles.itemCount, { color: colors.textSecondary }]}>
-        {item.items?.length || 0} item{item.items?.length !== 1 ? 's' : ''}
-      </Text>
-      <Text style={[styles.purchasedCount, { color: colors.success }]}>
-        {item.items?.filter((i) => i.purchasedBy).length || 0} purchased
-      </Text>
-    </TouchableOpacity>
+  useEffect(() => {
+    if (!id) return;
+
+    const unsubscribe = subscribeToEvent(id, setEvent);
+    return () => unsubscribe();
+  }, [id]);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const unsubscribe = subscribeToDeletedWishlistsForEvent(id, setDeletedWishlists);
+    return () => unsubscribe();
+  }, [id]);
+
+  // Deleted wishlists are purged once the undo window is over, by their
+  // creator or an organizer
+  useEffect(() => {
+    if (!event || !user) return;
+
+    deletedWishlists
+      .filter((wishlist) => canPurgeWishlist(wishlist, event, user.uid))
+      .filter((wishlist) => !purgingWishlistIds.current.has(wishlist.id))
+      .forEach((wishlist) => {
+        purgingWishlistIds.current.add(wishlist.id);
+        purgeWishlist(wishlist, user.uid).catch((error) => {
+          console.error('Error purging wishlist:', error);
+        });
+      });
+  }, [deletedWishlists, event, user]);
+
+  // Purchases embedded in wishlists from before claims existed stay readable
+  // by the recipient until the list is migrated, so members who see the claims
+  // migrate every such wishlist of the event instead of waiting for it to be opened
+  useEffect(() => {
+    if (!event || !user || !canContributeToEvent(event, user.uid)) return;
+
+    wishlists
+      .filter((wishlist) => wishlist.hasEmbeddedItems && canSeeClaims(wishlist, user.uid))
+      .filter((wishlist) => !migratingWishlistIds.current.has(wishlist.id))
+      .forEach((wishlist) => {
+        migratingWishlistIds.current.add(wishlist.id);
+        migrateEmbeddedItems(wishlist.id, user.uid).catch((error) => {
+          console.error('Error migrating wishlist items:', error);
+        });
+      });
+  }, [wishlists, event, user]);
+
+  // Creators see the wishlists they deleted until they are purged
+  const restorableWishlists = deletedWishlists.filter(
+    (wishlist) => wishlist.createdBy === user?.uid && !event?.deletedAt
   );
 
+  const handleRestore = async (wishlistId: string) => {
+    try {
+      await restoreWishlist(wishlistId);
+    } catch (error: any) {
+      if (Platform.OS === 'web') {
+        window.alert(`Error: ${error.message}`);
+      } else {
+        Alert.alert('Error', error.message);
+      }
+    }
+  };
+
+  // Load the names of the members the wishlists are for
+  const recipientIds = Array.from(
+    new Set(wishlists.map(getWishlistRecipientId).filter((recipientId): recipientId is string => !!recipientId))
+  ).join(',');
+
+  useEffect(() => {
+    if (!recipientIds) return;
+
+    Promise.all(
+      recipientIds.split(',').map(async (recipientId) => [recipientId, await getUserData(recipientId)] as const)
+    )
+      .then((results) => {
+        setRecipients((prevRecipients) => {
+          const updatedRecipients = new Map(prevRecipients);
+          results.forEach(([recipientId, userData]) => {
+            if (userData) {
+              updatedRecipients.set(recipientId, userData);
+            }
+          });
+          return updatedRecipients;
+        });
+      })
+      .catch((error) => {
+        console.error('Error loading wishlist recipients:', error);
+      });
+  }, [recipientIds]);
+
+  const getRecipientLabel = (wishlist: Wishlist) => {
+    const recipientId = getWishlistRecipientId(wishlist);
+    if (!recipientId) {
+      return wishlist.recipientName;
+    }
+    return recipientId === user?.uid ? 'you' : recipients.get(recipientId)?.displayName;
+  };
+
+  // Totals are shown in the event currency
+  const eventCurrency = event?.currency || DEFAULT_CURRENCY;
+
+  // Only count purchases on wishlists whose claims the user may see
+  const visibleWishlistIds = wishlists
+    .filter((wishlist) => user && canSeeClaims(wishlist, user.uid))
+    .map((wishlist) => wishlist.id)
+    .join(',');
+
+  useEffect(() => {
+    if (!visibleWishlistIds) {
+      setClaimsByWishlist(new Map());
+      setPledgesByWishlist(new Map());
+      return;
+    }
+
+    const unsubscribes = visibleWishlistIds.split(',').flatMap((wishlistId) => [
+      subscribeToClaimsForWishlist(wishlistId, (claims) => {
+        setClaimsByWishlist((prevClaims) => new Map(prevClaims).set(wishlistId, claims));
+      }),
+      subscribeToPledgesForWishlist(wishlistId, (pledges) => {
+        setPledgesByWishlist((prevPledges) => new Map(prevPledges).set(wishlistId, pledges));
+      }),
+    ]);
+
+    return () => {
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [visibleWishlistIds]);
+
+  // Counts items, not claims: an item that wants several only counts once all
+  // of them are claimed. Delivered items have been purchased too, and group
+  // gifts count as purchased once fully funded.
+  const getClaimCounts = (wishlist: Wishlist) => {
+    const claims = claimsByWishlist.get(wishlist.id);
+    if (!claims) {
+      return null;
+    }
+    const pledges = pledgesByWishlist.get(wishlist.id) || [];
+    return (wishlist.items || []).reduce(
+      (counts, item) => {
+        if (item.groupGift) {
+          if (getFundingProgress(item, pledges).isFullyFunded) {
+            counts.purchased++;
+          }
+          return counts;
+        }
+        const { status } = getItemFulfilment(item, claims);
+        if (status === 'reserved') {
+          counts.reserved++;
+        } else if (status) {
+          counts.purchased++;
+        }
+        return counts;
+      },
+      { reserved: 0, purchased: 0 }
+    );
+  };
+
+  const renderWishlist = ({ item }: { item: Wishlist }) => {
+    const claimCounts = getClaimCounts(item);
+    const total = getWishlistTotal(item, eventCurrency, rates);
+    const recipientLabel = getRecipientLabel(item);
+    return (
+      <TouchableOpacity
+        style={[styles.wishlistCard, { backgroundColor: colors.surface }]}
+        onPress={() => router.push(`/wishlists/${item.id}`)}
+      >
+        <Text style={[styles.wishlistName, { color: colors.text }]}>{item.name}</Text>
+        {recipientLabel && (
+          <Text style={[styles.itemCount, { color: colors.textSecondary }]}>For {recipientLabel}</Text>
+        )}
+        <Text style={[styles.itemCount, { color: colors.textSecondary }]}>
+          {item.items?.length || 0} item{item.items?.length !== 1 ? 's' : ''}
+          {total.total > 0 && ` • ${total.converted ? '≈ ' : ''}${formatPrice(total.total, eventCurrency)}`}
+        </Text>
+        {claimCounts && (
+          <Text style={[styles.purchasedCount, { color: colors.success }]}>
+            {claimCounts.purchased} purchased
+            {claimCounts.reserved > 0 && `, ${claimCounts.reserved} reserved`}
+          </Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
       <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
@@ -53,19 +254,21 @@ export default function EventWishlistsScreen() {
           </TouchableOpacity>
           <Text style={[styles.title, { color: colors.text }]}>Wishlists</Text>
         </View>
-        <TouchableOpacity
-          style={styles.addButton}
-          onPress={() => router.push(`/wishlists/create?eventId=${id}`)}
-        >
-          <Text style={styles.addButtonText}>+ New Wishlist</Text>
-        </TouchableOpacity>
+        {event && user && !event.deletedAt && !isEventArchived(event) && canContributeToEvent(event, user.uid) && (
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={() => router.push(`/wishlists/create?eventId=${id}`)}
+          >
+            <Text style={styles.addButtonText}>+ New Wishlist</Text>
+          </TouchableOpacity>
+        )}
       </View>
 
       {loading ? (
         <View style={styles.center}>
           <Text style={{ color: colors.text }}>Loading wishlists...</Text>
         </View>
-      ) : wishlists.length === 0 ? (
+      ) : wishlists.length === 0 && restorableWishlists.length === 0 ? (
         <View style={styles.center}>
           <Text style={[styles.emptyText, { color: colors.textSecondary }]}>No wishlists yet</Text>
           <Text style={[styles.emptySubtext, { color: colors.textTertiary }]}>
@@ -78,6 +281,31 @@ export default function EventWishlistsScreen() {
           renderItem={renderWishlist}
           keyExtractor={(item) => item.id}
           contentContainerStyle={styles.list}
+          ListFooterComponent={
+            restorableWishlists.length > 0 ? (
+              <View>
+                <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>Recently deleted</Text>
+                {restorableWishlists.map((wishlist) => (
+                  <View
+                    key={wishlist.id}
+                    style={[styles.deletedCard, { backgroundColor: colors.surface }]}
+                  >
+                    <View style={styles.deletedInfo}>
+                      <Text style={[styles.wishlistName, { color: colors.text }]}>{wishlist.name}</Text>
+                      {wishlist.deletedAt && (
+                        <Text style={[styles.itemCount, { color: colors.textSecondary }]}>
+                          {describeUndoWindow(wishlist.deletedAt.toDate())}
+                        </Text>
+                      )}
+                    </View>
+                    <TouchableOpacity onPress={() => handleRestore(wishlist.id)}>
+                      <Text style={[styles.restoreText, { color: colors.primary }]}>Restore</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+            ) : null
+          }
         />
       )}
     </SafeAreaView>
@@ -150,6 +378,28 @@ const styles = StyleSheet.create({
   purchasedCount: {
     fontSize: 12,
   },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  deletedCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 12,
+    opacity: 0.7,
+  },
+  deletedInfo: {
+    flex: 1,
+  },
+  restoreText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
   center: {
     flex: 1,
     justifyContent: 'center',
@@ -16,7 +16,9 @@ import { useRouter } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../../contexts/AuthContext';
+import { CURRENCIES, DEFAULT_CURRENCY } from '../../lib/currency';
 import { createEvent } from '../../lib/firestore/events';
+import { EventRecurrence, RECURRENCE_UNITS, RecurrenceUnit, YEARLY_RECURRENCE } from '../../lib/recurrence';
 import { getColors } from '../../lib/theme';
 
 export default function CreateEventScreen() {
@@ -27,6 +29,10 @@ export default function CreateEventScreen() {
   const [name, setName] = useState('');
   const [eventDate, setEventDate] = useState<Date | null>(null);
   const [showDatePicker, setShowDatePicker] = useState(false);
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+  const [repeats, setRepeats] = useState<'never' | 'yearly' | 'custom'>('never');
+  const [repeatInterval, setRepeatInterval] = useState('1');
+  const [repeatUnit, setRepeatUnit] = useState<RecurrenceUnit>('year');
   const [loading, setLoading] = useState(false);
 
   const [tempDate, setTempDate] = useState<Date>(new Date());
@@ -61,9 +67,23 @@ export default function CreateEventScreen() {
       return;
     }
 
+    let recurrence: EventRecurrence | undefined;
+    if (repeats !== 'never') {
+      if (!eventDate) {
+        Alert.alert('Error', 'Please select a date for a repeating event');
+        return;
+      }
+      const interval = parseInt(repeatInterval, 10);
+      if (repeats === 'custom' && (isNaN(interval) || interval < 1)) {
+        Alert.alert('Error', 'Please enter how often the event repeats');
+        return;
+      }
+      recurrence = repeats === 'yearly' ? YEARLY_RECURRENCE : { unit: repeatUnit, interval };
+    }
+
     setLoading(true);
     try {
-      const eventId = await createEvent(name.trim(), user.uid, eventDate || undefined);
+      const eventId = await createEvent(name.trim(), user.uid, eventDate || undefined, currency, recurrence);
       router.replace(`/events/${eventId}`);
     } catch (error: any) {
       Alert.alert('Error', error.message);
@@ -179,6 +199,79 @@ export default function CreateEventScreen() {
           </TouchableOpacity>
         )}
 
+        <Text style={[styles.label, { color: colors.text }]}>Repeats</Text>
+        <View style={styles.currencyRow}>
+          {([
+            ['never', 'Never'],
+            ['yearly', 'Every year'],
+            ['custom', 'Custom'],
+          ] as const).map(([option, label]) => (
+            <TouchableOpacity
+              key={option}
+              style={[
+                styles.currencyChip,
+                { backgroundColor: colors.surface, borderColor: colors.borderLight },
+                repeats === option && styles.currencyChipSelected,
+              ]}
+              onPress={() => setRepeats(option)}
+            >
+              <Text style={[styles.currencyChipText, { color: repeats === option ? '#fff' : colors.text }]}>
+                {label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {repeats === 'custom' && (
+          <View style={styles.repeatRow}>
+            <Text style={[styles.repeatText, { color: colors.text }]}>Every</Text>
+            <TextInput
+              style={[styles.repeatInput, { backgroundColor: colors.surface, borderColor: colors.borderLight, color: colors.text }]}
+              value={repeatInterval}
+              onChangeText={setRepeatInterval}
+              keyboardType="number-pad"
+            />
+            {RECURRENCE_UNITS.map((unit) => (
+              <TouchableOpacity
+                key={unit}
+                style={[
+                  styles.currencyChip,
+                  { backgroundColor: colors.surface, borderColor: colors.borderLight },
+                  repeatUnit === unit && styles.currencyChipSelected,
+                ]}
+                onPress={() => setRepeatUnit(unit)}
+              >
+                <Text style={[styles.currencyChipText, { color: repeatUnit === unit ? '#fff' : colors.text }]}>
+                  {unit}s
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        {repeats !== 'never' && (
+          <Text style={[styles.hint, { color: colors.textSecondary }]}>
+            Once the event is over, roll it over to its next date with the same members and the gifts nobody bought yet.
+          </Text>
+        )}
+
+        <Text style={[styles.label, { color: colors.text }]}>Currency</Text>
+        <View style={styles.currencyRow}>
+          {CURRENCIES.map((code) => (
+            <TouchableOpacity
+              key={code}
+              style={[
+                styles.currencyChip,
+                { backgroundColor: colors.surface, borderColor: colors.borderLight },
+                currency === code && styles.currencyChipSelected,
+              ]}
+              onPress={() => setCurrency(code)}
+            >
+              <Text style={[styles.currencyChipText, { color: currency === code ? '#fff' : colors.text }]}>
+                {code}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
         <TouchableOpacity
           style={[styles.button, loading && styles.buttonDisabled]}
           onPress={handleCreate}
@@ -273,6 +366,48 @@ const styles = StyleSheet.create({
   datePickerButtonConfirm: {
     fontWeight: '600',
   },
+  currencyRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  currencyChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  currencyChipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  currencyChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  repeatRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  repeatText: {
+    fontSize: 16,
+  },
+  repeatInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    fontSize: 16,
+    minWidth: 48,
+    textAlign: 'center',
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 8,
+  },
   button: {
     backgroundColor: '#007AFF',
     borderRadius: 8,
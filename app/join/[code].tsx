@@ -0,0 +1,176 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Platform,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  formatInviteCode,
+  getInviteCode,
+  getInviteCodeProblem,
+  InviteCode,
+  joinEventWithCode,
+} from '../../lib/firestore/inviteCodes';
+import { getColors } from '../../lib/theme';
+
+// Opened from invite links (giftplannerapp://join/CODE) and the join screen
+export default function JoinEventScreen() {
+  const router = useRouter();
+  const { code } = useLocalSearchParams<{ code: string }>();
+  const { user } = useAuth();
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const [inviteCode, setInviteCode] = useState<InviteCode | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [joining, setJoining] = useState(false);
+
+  useEffect(() => {
+    if (!code || !user) return;
+
+    setLoading(true);
+    getInviteCode(code)
+      .then((result) => {
+        setInviteCode(result);
+        setError(result ? getInviteCodeProblem(result) : 'Invite code not found');
+      })
+      .catch((err) => {
+        console.error('Error loading invite code:', err);
+        setError(err.message);
+      })
+      .finally(() => setLoading(false));
+  }, [code, user]);
+
+  const handleJoin = async () => {
+    if (!code || !user) return;
+
+    setJoining(true);
+    try {
+      const eventId = await joinEventWithCode(code, user.uid);
+      router.replace(`/events/${eventId}`);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  const goBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)/events');
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+      <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+        <TouchableOpacity style={styles.backButton} onPress={goBack}>
+          <Ionicons name="arrow-back" size={24} color={colors.primary} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.text }]}>Join Event</Text>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator size="large" style={styles.loading} />
+      ) : (
+        <View style={styles.center}>
+          <Ionicons name="calendar" size={48} color={colors.primary} />
+          {inviteCode && (
+            <Text style={[styles.eventName, { color: colors.text }]}>{inviteCode.eventName}</Text>
+          )}
+          <Text style={[styles.codeText, { color: colors.textSecondary }]}>
+            Code {formatInviteCode(inviteCode?.code || code || '')}
+          </Text>
+          {error ? (
+            <Text style={[styles.errorText, { color: colors.error }]}>{error}</Text>
+          ) : (
+            <TouchableOpacity
+              style={[styles.joinButton, joining && styles.buttonDisabled]}
+              onPress={handleJoin}
+              disabled={joining}
+            >
+              {joining ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.joinButtonText}>Join Event</Text>
+              )}
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    marginRight: 12,
+    padding: 4,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  loading: {
+    marginTop: 40,
+  },
+  center: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  eventName: {
+    fontSize: 22,
+    fontWeight: '600',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  codeText: {
+    fontSize: 14,
+    marginTop: 8,
+    ...Platform.select({
+      ios: { fontFamily: 'Menlo' },
+      default: { fontFamily: 'monospace' },
+    }),
+  },
+  errorText: {
+    fontSize: 16,
+    marginTop: 20,
+    textAlign: 'center',
+  },
+  joinButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginTop: 24,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  joinButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,114 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { normalizeInviteCode } from '../../lib/firestore/inviteCodes';
+import { getColors } from '../../lib/theme';
+
+// Typing in a code someone shared, for when the link doesn't open the app
+export default function EnterInviteCodeScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const [code, setCode] = useState('');
+
+  const normalizedCode = normalizeInviteCode(code);
+
+  const handleContinue = () => {
+    if (!normalizedCode) return;
+    router.push(`/join/${normalizedCode}`);
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+      <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={colors.primary} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.text }]}>Join with Code</Text>
+      </View>
+
+      <View style={styles.form}>
+        <Text style={[styles.label, { color: colors.textSecondary }]}>
+          Enter the invite code the organizer shared with you
+        </Text>
+        <TextInput
+          style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.borderLight, color: colors.text }]}
+          placeholder="ABCD-EFGH"
+          placeholderTextColor={colors.textTertiary}
+          value={code}
+          onChangeText={setCode}
+          onSubmitEditing={handleContinue}
+          autoCapitalize="characters"
+          autoCorrect={false}
+          autoFocus
+        />
+        <TouchableOpacity
+          style={[styles.button, !normalizedCode && styles.buttonDisabled]}
+          onPress={handleContinue}
+          disabled={!normalizedCode}
+        >
+          <Text style={styles.buttonText}>Continue</Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    marginRight: 12,
+    padding: 4,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  form: {
+    padding: 16,
+  },
+  label: {
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 18,
+    letterSpacing: 2,
+    textAlign: 'center',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -1,13 +1,16 @@
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import { useCallback, useEffect, useState } from 'react';
+import { Image } from 'expo-image';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
   Modal,
   Platform,
+  ScrollView,
   StyleSheet,
+  Switch,
   Text,
   TextInput,
   TouchableOpacity,
@@ -15,52 +18,170 @@ import {
   View,
 } from 'react-native';
 import DraggableFlatList, {
+  DragEndParams,
   RenderItemParams,
 } from 'react-native-draggable-flatlist';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import RecipientPicker from '../../components/RecipientPicker';
 import { useAuth } from '../../contexts/AuthContext';
+import { useExchangeRates } from '../../contexts/ExchangeRatesContext';
 import { getUserData, UserData } from '../../lib/auth';
+import { convertAmount, CURRENCIES, DEFAULT_CURRENCY, formatPrice, sumInCurrency } from '../../lib/currency';
+import { UNDO_WINDOW_DAYS } from '../../lib/deletion';
 import {
   getAssignmentForWishlist,
   updateAssignmentStatus,
 } from '../../lib/firestore/assignments';
-import { Event, subscribeToEvent } from '../../lib/firestore/events';
+import { Budget, getSpendingForEvent, subscribeToBudget } from '../../lib/firestore/budgets';
+import { canContributeToEvent, Event, isEventArchived, subscribeToEvent } from '../../lib/firestore/events';
 import {
   addItemToWishlist,
+  allowsMultipleClaims,
+  canSeeClaims,
+  claimItem,
+  ClaimStatus,
+  copyItemsToWishlist,
   deleteWishlist,
   deleteWishlistItem,
-  markItemAsPurchased,
-  reorderWishlistItems,
+  DEFAULT_ITEM_PRIORITY,
+  getFundingProgress,
+  getItemAttributeLabels,
+  getItemFulfilment,
+  getItemPriority,
+  getItemTargetsForUser,
+  getWishlistRecipient,
+  getWishlistRecipientId,
+  getWishlistTotal,
+  isPersonalWishlist,
+  isWishlistRecipient,
+  ItemAlreadyClaimedError,
+  ItemAttributes,
+  ItemClaim,
+  ITEM_PRIORITIES,
+  ITEM_PRIORITY_LABELS,
+  ItemPledge,
+  ItemPriority,
+  itemMatchesSearch,
+  ItemQuantityUnavailableError,
+  ItemTarget,
+  migrateEmbeddedItems,
+  moveItemsToWishlist,
+  moveWishlistItem,
+  pledgeToItem,
+  setItemImage,
+  sortItemsByPrice,
+  subscribeToClaimsForWishlist,
+  subscribeToPledgesForWishlist,
   subscribeToWishlist,
-  unmarkItemAsPurchased,
+  transferClaim,
+  unlinkWishlist,
+  unreserveItem,
+  updateClaimStatus,
+  updateItemGroupGift,
   updateWishlist,
   updateWishlistItem,
   Wishlist,
   WishlistItem,
+  WishlistRecipient,
+  withdrawPledge,
 } from '../../lib/firestore/wishlists';
+import { ImageSource, PickedImage, pickImage, uploadItemImage } from '../../lib/images';
+import { fetchLinkMetadata, isLikelyUrl } from '../../lib/linkMetadata';
 import { getColors } from '../../lib/theme';
 
+type ItemSortOrder = 'priority' | 'price-low' | 'price-high';
+
+const PRIORITY_ICONS: Record<ItemPriority, { name: keyof typeof Ionicons.glyphMap; color?: string }> = {
+  'must-have': { name: 'star', color: '#FFD700' },
+  'would-love': { name: 'heart', color: '#FF2D55' },
+  'nice-to-have': { name: 'thumbs-up-outline' },
+  idea: { name: 'bulb-outline' },
+};
+
 export default function WishlistDetailScreen() {
   const router = useRouter();
   const { id } = useLocalSearchParams<{ id: string }>();
   const { user } = useAuth();
+  const { rates } = useExchangeRates();
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const [wishlist, setWishlist] = useState<Wishlist | null>(null);
+  const [claims, setClaims] = useState<ItemClaim[]>([]);
+  const [pledges, setPledges] = useState<ItemPledge[]>([]);
   const [event, setEvent] = useState<Event | null>(null);
+  const [budget, setBudget] = useState<Budget | null>(null);
   const [loading, setLoading] = useState(true);
   const [showAddItem, setShowAddItem] = useState(false);
   const [itemName, setItemName] = useState('');
   const [itemDescription, setItemDescription] = useState('');
   const [itemLink, setItemLink] = useState('');
   const [itemPrice, setItemPrice] = useState('');
+  const [itemCurrency, setItemCurrency] = useState<string | null>(null);
+  const [itemGroupGift, setItemGroupGift] = useState(false);
+  const [itemQuantity, setItemQuantity] = useState('');
+  const [itemUnlimited, setItemUnlimited] = useState(false);
+  const [itemImageUrl, setItemImageUrl] = useState('');
+  const [itemAttributes, setItemAttributes] = useState<ItemAttributes>({});
+  const [itemPriority, setItemPriority] = useState<ItemPriority>(DEFAULT_ITEM_PRIORITY);
+  const [showItemAttributes, setShowItemAttributes] = useState(false);
+  // Photo taken or chosen for the new item, uploaded when the item is added
+  const [itemPhoto, setItemPhoto] = useState<PickedImage | null>(null);
+  const [addingItem, setAddingItem] = useState(false);
+  const [uploadingImageItemId, setUploadingImageItemId] = useState<string | null>(null);
+  const [loadingLinkPreview, setLoadingLinkPreview] = useState(false);
+  // Last link a preview was loaded for, so edits to other fields don't refetch it
+  const previewedLinkRef = useRef('');
   const [userDataMap, setUserDataMap] = useState<Map<string, UserData>>(new Map());
   const [editingItemId, setEditingItemId] = useState<string | null>(null);
   const [editingItemName, setEditingItemName] = useState('');
+  const [editingItemAttributes, setEditingItemAttributes] = useState<ItemAttributes>({});
+  const [searchQuery, setSearchQuery] = useState('');
+  const [sortOrder, setSortOrder] = useState<ItemSortOrder>('priority');
+  const [priorityItemId, setPriorityItemId] = useState<string | null>(null);
   const [expandedItemId, setExpandedItemId] = useState<string | null>(null);
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [showSettingsModal, setShowSettingsModal] = useState(false);
   const [editingWishlistName, setEditingWishlistName] = useState('');
+  const [editingRecipient, setEditingRecipient] = useState<WishlistRecipient | null>(null);
+  const [claimConflict, setClaimConflict] = useState<{
+    itemName: string;
+    claimedByName: string;
+  } | null>(null);
+  const [transferItemId, setTransferItemId] = useState<string | null>(null);
+  const [pledgeItemId, setPledgeItemId] = useState<string | null>(null);
+  const [pledgeAmount, setPledgeAmount] = useState('');
+  const [quantityClaim, setQuantityClaim] = useState<{
+    itemId: string;
+    status: ClaimStatus;
+  } | null>(null);
+  const [claimQuantity, setClaimQuantity] = useState('');
+  // Items picked for copying or moving, null when not selecting
+  const [selectedItemIds, setSelectedItemIds] = useState<Set<string> | null>(null);
+  const [itemAction, setItemAction] = useState<'copy' | 'move' | null>(null);
+  const [itemTargets, setItemTargets] = useState<ItemTarget[] | null>(null);
+  const [transferringItems, setTransferringItems] = useState(false);
+
+  // Prices without a currency of their own are in the event's currency
+  const eventCurrency = event?.currency || DEFAULT_CURRENCY;
+  const currencyOf = (item: WishlistItem) => item.currency || eventCurrency;
+
+  // The recipient must not learn what was bought while surprise mode is on
+  const showClaims = !!wishlist && !!user && canSeeClaims(wishlist, user.uid);
+
+  // Event members can edit the items of event wishlists, personal wishlists
+  // are only edited by their owner. Items of wishlists linked to a personal
+  // wishlist are edited there. Wishlists of archived events are read-only,
+  // and so is everything for view-only members. Deleted wishlists and the
+  // wishlists of deleted events stay read-only until they are restored.
+  const isPersonal = !!wishlist && isPersonalWishlist(wishlist);
+  const isArchived = !!event && isEventArchived(event);
+  const isDeleted = !!wishlist?.deletedAt || !!event?.deletedAt;
+  const isViewOnly = !!event && !!user && !canContributeToEvent(event, user.uid);
+  const isReadOnly = isArchived || isDeleted || isViewOnly;
+  const canEdit = !!wishlist && !!user && !isReadOnly && (isPersonal
+    ? wishlist.createdBy === user.uid
+    : !!event?.members?.includes(user.uid));
+  const canEditItems = canEdit && !wishlist?.sourceWishlistId;
 
   const loadUserData = useCallback(async (userIds: string[]) => {
     // Get current map to check what we already have
@@ -107,17 +228,6 @@ export default function WishlistDetailScreen() {
     const unsubscribeWishlist = subscribeToWishlist(id, (wishlistData) => {
       setWishlist(wishlistData);
       
-      // Load user data for purchasers
-      if (wishlistData?.items) {
-        const purchaserIds = wishlistData.items
-          .map(item => item.purchasedBy)
-          .filter((id): id is string => !!id);
-        
-        if (purchaserIds.length > 0) {
-          loadUserData(purchaserIds);
-        }
-      }
-      
       // Fetch event data when wishlist is loaded
       if (wishlistData?.eventId) {
         // Clean up previous event subscription if it exists
@@ -140,48 +250,372 @@ export default function WishlistDetailScreen() {
         unsubscribeEvent();
       }
     };
-  }, [id, loadUserData]);
+  }, [id]);
+
+  useEffect(() => {
+    if (!id || !showClaims) {
+      setClaims([]);
+      return;
+    }
+
+    const unsubscribeClaims = subscribeToClaimsForWishlist(id, (claimsData) => {
+      setClaims(claimsData);
+
+      // Load user data for purchasers
+      const claimerIds = claimsData.map((claim) => claim.claimedBy);
+      if (claimerIds.length > 0) {
+        loadUserData(claimerIds);
+      }
+    });
+
+    return () => unsubscribeClaims();
+  }, [id, showClaims, loadUserData]);
+
+  useEffect(() => {
+    if (!id || !showClaims) {
+      setPledges([]);
+      return;
+    }
+
+    const unsubscribePledges = subscribeToPledgesForWishlist(id, (pledgesData) => {
+      setPledges(pledgesData);
+
+      // Load user data for contributors
+      const contributorIds = pledgesData.map((pledge) => pledge.pledgedBy);
+      if (contributorIds.length > 0) {
+        loadUserData(contributorIds);
+      }
+    });
+
+    return () => unsubscribePledges();
+  }, [id, showClaims, loadUserData]);
+
+  const eventId = wishlist?.eventId;
+
+  useEffect(() => {
+    if (!user || !eventId) {
+      setBudget(null);
+      return;
+    }
+
+    const unsubscribeBudget = subscribeToBudget(user.uid, eventId, setBudget);
+    return () => unsubscribeBudget();
+  }, [user, eventId]);
+
+  // Wishlists created before items moved into their own documents are
+  // migrated the first time an event member opens them
+  const canMigrateItems = !!user && !!event && canContributeToEvent(event, user.uid);
+
+  useEffect(() => {
+    if (!id || !user || !canMigrateItems) return;
+
+    migrateEmbeddedItems(id, user.uid).catch((error) => {
+      console.error('Error migrating wishlist items:', error);
+    });
+  }, [id, user, canMigrateItems]);
+
+  // Prefill the add-item form from the pasted shop link. Only empty fields
+  // are filled so nothing the user typed gets overwritten.
+  useEffect(() => {
+    const link = itemLink.trim();
+    if (!showAddItem || !isLikelyUrl(link) || link === previewedLinkRef.current) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      previewedLinkRef.current = link;
+      setLoadingLinkPreview(true);
+      try {
+        const metadata = await fetchLinkMetadata(link);
+        if (cancelled) return;
+        if (metadata.title) setItemName((name) => name || metadata.title!);
+        if (metadata.description) setItemDescription((description) => description || metadata.description!);
+        if (metadata.image) setItemImageUrl((imageUrl) => imageUrl || metadata.image!);
+        // A price of 0 means the shop left it out
+        if (metadata.price !== undefined && metadata.price > 0) {
+          setItemPrice((price) => price || metadata.price!.toFixed(2));
+          if (metadata.currency && CURRENCIES.includes(metadata.currency)) {
+            setItemCurrency((currency) => currency || metadata.currency!);
+          }
+        }
+      } catch (error) {
+        // Not every shop can be previewed, the form still works by hand
+        console.error('Error loading link preview:', error);
+      } finally {
+        if (!cancelled) setLoadingLinkPreview(false);
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [itemLink, showAddItem]);
+
+  const resetItemForm = () => {
+    setItemName('');
+    setItemDescription('');
+    setItemLink('');
+    setItemPrice('');
+    setItemCurrency(null);
+    setItemGroupGift(false);
+    setItemQuantity('');
+    setItemUnlimited(false);
+    setItemImageUrl('');
+    setItemAttributes({});
+    setShowItemAttributes(false);
+    setItemPriority(DEFAULT_ITEM_PRIORITY);
+    setItemPhoto(null);
+    setLoadingLinkPreview(false);
+    previewedLinkRef.current = '';
+  };
+
+  // Empty attributes are left out rather than stored as empty strings
+  const trimAttributes = (attributes: ItemAttributes): ItemAttributes => ({
+    size: attributes.size?.trim() || undefined,
+    color: attributes.color?.trim() || undefined,
+    variant: attributes.variant?.trim() || undefined,
+    exactItem: attributes.exactItem,
+  });
 
   const handleAddItem = async () => {
-    if (!itemName.trim() || !id) return;
+    if (!itemName.trim() || !id || addingItem) return;
 
+    setAddingItem(true);
     try {
+      const uploadedImage = itemPhoto ? await uploadItemImage(id, itemPhoto) : null;
       await addItemToWishlist(id, {
         name: itemName.trim(),
         description: itemDescription.trim() || undefined,
         link: itemLink.trim() || undefined,
+        imageUrl: uploadedImage?.imageUrl || itemImageUrl.trim() || undefined,
+        thumbnailUrl: uploadedImage?.thumbnailUrl,
+        imagePath: uploadedImage?.imagePath,
         price: itemPrice ? parseFloat(itemPrice) : undefined,
+        // Stored explicitly so prices don't change if the event currency does
+        currency: itemPrice ? itemCurrency || eventCurrency : undefined,
+        groupGift: itemGroupGift || undefined,
+        quantity: !itemUnlimited && itemQuantity ? parseInt(itemQuantity, 10) : undefined,
+        unlimited: itemUnlimited || undefined,
+        priority: itemPriority,
+        ...trimAttributes(itemAttributes),
       });
-      setItemName('');
-      setItemDescription('');
-      setItemLink('');
-      setItemPrice('');
+      resetItemForm();
       setShowAddItem(false);
     } catch (error: any) {
       Alert.alert('Error', error.message);
+    } finally {
+      setAddingItem(false);
+    }
+  };
+
+  const handlePickItemPhoto = async (source: ImageSource) => {
+    try {
+      const photo = await pickImage(source);
+      if (photo) {
+        setItemPhoto(photo);
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  const handleChangeItemImage = async (itemId: string, source: ImageSource) => {
+    if (!id) return;
+
+    try {
+      const photo = await pickImage(source);
+      if (!photo) return;
+
+      setUploadingImageItemId(itemId);
+      const uploadedImage = await uploadItemImage(id, photo);
+      await setItemImage(id, itemId, uploadedImage);
+      // Wishlist will update automatically via real-time listener
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    } finally {
+      setUploadingImageItemId(null);
+    }
+  };
+
+  const handleOpenImageOptions = (item: WishlistItem) => {
+    Alert.alert(
+      item.imageUrl ? 'Change Photo' : 'Add Photo',
+      undefined,
+      [
+        { text: 'Take Photo', onPress: () => handleChangeItemImage(item.id, 'camera') },
+        { text: 'Choose from Library', onPress: () => handleChangeItemImage(item.id, 'library') },
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
+  };
+
+  const handleRemoveItemImage = async (itemId: string) => {
+    if (!id) return;
+
+    try {
+      await setItemImage(id, itemId, null);
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  // Show who got there first when someone else claimed the item in the meantime
+  const showClaimConflict = async (itemId: string, claimedBy: string) => {
+    const itemName = wishlist?.items.find((item) => item.id === itemId)?.name || 'This item';
+    let claimedByName = userDataMap.get(claimedBy)?.displayName;
+    if (!claimedByName) {
+      try {
+        claimedByName = (await getUserData(claimedBy))?.displayName;
+      } catch (error) {
+        console.error(`Error loading user ${claimedBy}:`, error);
+      }
     }
+    setClaimConflict({ itemName, claimedByName: claimedByName || 'another member' });
   };
 
-  const handleMarkPurchased = async (itemId: string) => {
+  // Keep the user's assignment for this wishlist in sync with their purchases
+  const updateAssignmentForPurchase = async (purchased: boolean) => {
     if (!id || !user) return;
 
     try {
-      await markItemAsPurchased(id, itemId, user.uid);
-      
-      // Update assignment status if this wishlist has an assignment
+      const assignment = await getAssignmentForWishlist(id, user.uid);
+      if (assignment && purchased && assignment.status === 'pending') {
+        await updateAssignmentStatus(assignment.id, 'purchased');
+      } else if (assignment && !purchased && assignment.status === 'purchased') {
+        await updateAssignmentStatus(assignment.id, 'pending');
+      }
+    } catch (assignmentError) {
+      // Assignment update is optional, don't fail the whole operation
+      console.error('Error updating assignment:', assignmentError);
+    }
+  };
+
+  // Warn before spending more than the event's gift limit or the user's
+  // personal budget. Resolves to whether the user wants to go ahead.
+  const confirmWithinLimits = async (item: WishlistItem, amount: number): Promise<boolean> => {
+    if (!user || !wishlist) return true;
+
+    const warnings: string[] = [];
+    const cost = convertAmount(amount, currencyOf(item), eventCurrency, rates);
+    if (event?.giftLimit && cost !== null && cost > event.giftLimit) {
+      warnings.push(`This is more than the gift limit of ${formatPrice(event.giftLimit, eventCurrency)}.`);
+    }
+
+    if (budget && wishlist.eventId) {
       try {
-        const assignment = await getAssignmentForWishlist(id);
-        if (assignment && assignment.status === 'pending') {
-          await updateAssignmentStatus(assignment.id, 'purchased');
+        const spending = await getSpendingForEvent(wishlist.eventId, user.uid);
+        // An earlier purchase of this same item is replaced, not added to
+        const otherSpending = spending.filter(
+          entry => entry.wishlistId !== wishlist.id || entry.itemId !== item.id
+        );
+        const { total } = sumInCurrency(
+          [
+            ...otherSpending.map(entry => ({ amount: entry.amount, currency: entry.currency || eventCurrency })),
+            { amount, currency: currencyOf(item) },
+          ],
+          budget.currency,
+          rates
+        );
+        if (total > budget.amount) {
+          warnings.push(
+            `This brings your spending to ${formatPrice(total, budget.currency)}, over your budget of ${formatPrice(budget.amount, budget.currency)}.`
+          );
+        }
+      } catch (error) {
+        // Checking the budget is optional, don't block the purchase
+        console.error('Error checking budget:', error);
+      }
+    }
+
+    if (warnings.length === 0) return true;
+
+    return new Promise((resolve) => {
+      Alert.alert(
+        'Over Budget',
+        warnings.join('\n\n'),
+        [
+          { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+          { text: 'Continue Anyway', onPress: () => resolve(true) },
+        ],
+        { cancelable: true, onDismiss: () => resolve(false) }
+      );
+    });
+  };
+
+  const handleClaim = async (itemId: string, status: ClaimStatus, quantity?: number) => {
+    if (!id || !user) return;
+
+    const item = wishlist?.items.find((wishlistItem) => wishlistItem.id === itemId);
+    if (status === 'purchased' && item?.price) {
+      const confirmed = await confirmWithinLimits(item, item.price * (quantity ?? 1));
+      if (!confirmed) return;
+    }
+
+    try {
+      await claimItem(id, itemId, user.uid, status, quantity);
+
+      if (status === 'purchased') {
+        await updateAssignmentForPurchase(true);
+        // Collapse the item after marking as purchased
+        if (expandedItemId === itemId) {
+          setExpandedItemId(null);
         }
-      } catch (assignmentError) {
-        // Assignment update is optional, don't fail the whole operation
-        console.error('Error updating assignment:', assignmentError);
       }
       
-      // Collapse the item after marking as purchased
-      if (expandedItemId === itemId) {
-        setExpandedItemId(null);
+      // Wishlist will update automatically via real-time listener
+    } catch (error: any) {
+      if (error instanceof ItemAlreadyClaimedError) {
+        await showClaimConflict(itemId, error.claimedBy);
+        return;
+      }
+      if (error instanceof ItemQuantityUnavailableError) {
+        Alert.alert('Not Enough Left', error.message);
+        return;
+      }
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  // Items that want more than one ask how many the user is getting first
+  const handleStartClaim = (item: WishlistItem, status: ClaimStatus) => {
+    if (!allowsMultipleClaims(item)) {
+      handleClaim(item.id, status);
+      return;
+    }
+
+    const { requested, reserved, purchased } = getItemFulfilment(item, claims);
+    const remaining = requested !== null ? requested - reserved - purchased : null;
+    setClaimQuantity(String(remaining !== null ? remaining : 1));
+    setQuantityClaim({ itemId: item.id, status });
+  };
+
+  const handleCloseQuantityClaim = () => {
+    setQuantityClaim(null);
+    setClaimQuantity('');
+  };
+
+  const handleSaveQuantityClaim = async () => {
+    if (!quantityClaim) return;
+
+    const quantity = parseInt(claimQuantity, 10);
+    if (isNaN(quantity) || quantity < 1) {
+      Alert.alert('Error', 'Please enter a quantity of at least 1');
+      return;
+    }
+
+    const { itemId, status } = quantityClaim;
+    handleCloseQuantityClaim();
+    await handleClaim(itemId, status, quantity);
+  };
+
+  const handleUpdateClaimStatus = async (itemId: string, status: ClaimStatus) => {
+    if (!id || !user) return;
+
+    try {
+      await updateClaimStatus(id, itemId, status, user.uid);
+
+      if (status === 'reserved') {
+        await updateAssignmentForPurchase(false);
       }
       
       // Wishlist will update automatically via real-time listener
@@ -190,23 +624,105 @@ export default function WishlistDetailScreen() {
     }
   };
 
-  const handleUnmarkPurchased = async (itemId: string) => {
+  const handleUnreserve = async (itemId: string) => {
     if (!id || !user) return;
 
     try {
-      await unmarkItemAsPurchased(id, itemId);
+      await unreserveItem(id, itemId, user.uid);
+      await updateAssignmentForPurchase(false);
       
-      // Update assignment status back to pending if this wishlist has an assignment
-      try {
-        const assignment = await getAssignmentForWishlist(id);
-        if (assignment && assignment.status === 'purchased') {
-          await updateAssignmentStatus(assignment.id, 'pending');
-        }
-      } catch (assignmentError) {
-        // Assignment update is optional, don't fail the whole operation
-        console.error('Error updating assignment:', assignmentError);
+      // Wishlist will update automatically via real-time listener
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  const handleOpenTransfer = (itemId: string) => {
+    if (event?.members) {
+      loadUserData(event.members);
+    }
+    setTransferItemId(itemId);
+  };
+
+  const handleTransfer = async (toUserId: string) => {
+    if (!id || !user || !transferItemId) return;
+
+    const itemId = transferItemId;
+    setTransferItemId(null);
+    try {
+      await transferClaim(id, itemId, user.uid, toUserId);
+      // Wishlist will update automatically via real-time listener
+    } catch (error: any) {
+      if (error instanceof ItemAlreadyClaimedError) {
+        await showClaimConflict(itemId, error.claimedBy);
+        return;
       }
-      
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  const handleOpenPledge = (item: WishlistItem) => {
+    const ownPledge = pledges.find(
+      (pledge) => pledge.itemId === item.id && pledge.pledgedBy === user?.uid
+    );
+    // Suggest the amount that is still missing when pledging for the first time
+    const { remaining } = getFundingProgress(item, pledges);
+    const suggestedAmount = ownPledge?.amount ?? (remaining || undefined);
+    setPledgeAmount(suggestedAmount !== undefined ? suggestedAmount.toFixed(2) : '');
+    setPledgeItemId(item.id);
+  };
+
+  const handleClosePledge = () => {
+    setPledgeItemId(null);
+    setPledgeAmount('');
+  };
+
+  const handleSavePledge = async () => {
+    if (!id || !user || !pledgeItemId) return;
+
+    const amount = parseFloat(pledgeAmount);
+    if (isNaN(amount) || amount <= 0) {
+      Alert.alert('Error', 'Please enter an amount greater than zero');
+      return;
+    }
+
+    const itemId = pledgeItemId;
+    handleClosePledge();
+
+    const item = wishlist?.items.find((wishlistItem) => wishlistItem.id === itemId);
+    if (item) {
+      const confirmed = await confirmWithinLimits(item, amount);
+      if (!confirmed) return;
+    }
+
+    try {
+      await pledgeToItem(id, itemId, user.uid, amount);
+      // Pledges will update automatically via real-time listener
+    } catch (error: any) {
+      if (error instanceof ItemAlreadyClaimedError) {
+        await showClaimConflict(itemId, error.claimedBy);
+        return;
+      }
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  const handleWithdrawPledge = async (itemId: string) => {
+    if (!id || !user) return;
+
+    try {
+      await withdrawPledge(id, itemId, user.uid);
+      // Pledges will update automatically via real-time listener
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  const handleToggleGroupGift = async (item: WishlistItem) => {
+    if (!id) return;
+
+    try {
+      await updateItemGroupGift(id, item.id, !item.groupGift);
       // Wishlist will update automatically via real-time listener
     } catch (error: any) {
       Alert.alert('Error', error.message);
@@ -242,7 +758,7 @@ export default function WishlistDetailScreen() {
 
     Alert.alert(
       'Delete Wishlist',
-      'Are you sure you want to delete this wishlist?',
+      `Are you sure you want to delete this wishlist? You can restore it from the event wishlists for ${UNDO_WINDOW_DAYS} days.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -261,9 +777,123 @@ export default function WishlistDetailScreen() {
     );
   };
 
+  const handleUnlinkWishlist = () => {
+    if (!id) return;
+
+    Alert.alert(
+      'Stop Syncing',
+      'Changes to your personal wishlist will no longer show up here. The items stay and can be edited in this event.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Stop Syncing',
+          onPress: async () => {
+            try {
+              await unlinkWishlist(id);
+              setShowSettingsModal(false);
+            } catch (error: any) {
+              Alert.alert('Error', error.message);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleToggleSelecting = () => {
+    setSelectedItemIds(selectedItemIds ? null : new Set());
+  };
+
+  const handleToggleSelected = (itemId: string) => {
+    setSelectedItemIds((current) => {
+      const updated = new Set(current);
+      if (updated.has(itemId)) {
+        updated.delete(itemId);
+      } else {
+        updated.add(itemId);
+      }
+      return updated;
+    });
+  };
+
+  const handleOpenItemTargets = async (action: 'copy' | 'move') => {
+    if (!user) return;
+
+    setItemAction(action);
+    setItemTargets(null);
+    try {
+      const targets = await getItemTargetsForUser(user.uid);
+      setItemTargets(targets.filter(target => target.wishlistId !== id));
+    } catch (error: any) {
+      setItemAction(null);
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  const transferSelectedItems = async (target: ItemTarget, action: 'copy' | 'move') => {
+    if (!id || !selectedItemIds) return;
+
+    const itemIds = Array.from(selectedItemIds);
+    setTransferringItems(true);
+    try {
+      if (action === 'move') {
+        await moveItemsToWishlist(id, itemIds, target.wishlistId);
+      } else {
+        await copyItemsToWishlist(id, itemIds, target.wishlistId);
+      }
+      setSelectedItemIds(null);
+      Alert.alert(
+        action === 'move' ? 'Items Moved' : 'Items Copied',
+        `${itemIds.length} ${itemIds.length === 1 ? 'item' : 'items'} ${action === 'move' ? 'moved' : 'copied'} to ${target.name}.`
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    } finally {
+      setTransferringItems(false);
+    }
+  };
+
+  // Claims and pledges belong to the item on this wishlist, so they don't
+  // follow a moved item. The recipient can't see them in surprise mode, so
+  // they get a warning that doesn't give away whether anything was bought.
+  const handleSelectItemTarget = (target: ItemTarget) => {
+    const action = itemAction;
+    setItemAction(null);
+    if (!action || !selectedItemIds) return;
+
+    if (action === 'copy') {
+      transferSelectedItems(target, action);
+      return;
+    }
+
+    const claimedCount = Array.from(selectedItemIds).filter(itemId =>
+      claims.some(itemClaim => itemClaim.itemId === itemId) ||
+      pledges.some(pledge => pledge.itemId === itemId)
+    ).length;
+    const warning = !showClaims
+      ? 'Anything others have already reserved, bought or chipped in for stays with this wishlist and won\'t carry over to the moved items.'
+      : claimedCount > 0
+        ? `${claimedCount} of the selected items ${claimedCount === 1 ? 'has' : 'have'} already been reserved, bought or chipped in for. That is not moved along: the items will show as unclaimed on ${target.name}, so someone may buy them twice.`
+        : `The selected items will be removed from this wishlist and added to ${target.name}.`;
+
+    Alert.alert(
+      'Move Items',
+      warning,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Move',
+          style: claimedCount > 0 || !showClaims ? 'destructive' : 'default',
+          onPress: () => transferSelectedItems(target, action),
+        },
+      ]
+    );
+  };
+
   const handleOpenSettings = () => {
     if (wishlist) {
       setEditingWishlistName(wishlist.name);
+      setEditingRecipient(getWishlistRecipient(wishlist));
       setShowSettingsModal(true);
     }
   };
@@ -271,37 +901,70 @@ export default function WishlistDetailScreen() {
   const handleCloseSettings = () => {
     setShowSettingsModal(false);
     setEditingWishlistName('');
+    setEditingRecipient(null);
+  };
+
+  const handleToggleSurpriseMode = async (enabled: boolean) => {
+    if (!id) return;
+
+    try {
+      await updateWishlist(id, { surpriseMode: enabled });
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
   };
 
-  const handleUpdateWishlistName = async () => {
+  const handleSaveSettings = async () => {
     if (!id || !editingWishlistName.trim()) return;
 
+    if (editingRecipient?.type === 'named' && !editingRecipient.name.trim()) {
+      Alert.alert('Error', 'Please enter who this wishlist is for');
+      return;
+    }
+
     try {
-      await updateWishlist(id, { name: editingWishlistName.trim() });
+      // Only the creator can change who the list is for, and not while it is
+      // a surprise for them
+      const recipient = wishlist?.createdBy === user?.uid && showClaims && editingRecipient
+        ? editingRecipient.type === 'named'
+          ? { type: 'named' as const, name: editingRecipient.name.trim() }
+          : editingRecipient
+        : undefined;
+      await updateWishlist(id, { name: editingWishlistName.trim(), recipient });
       setShowSettingsModal(false);
       setEditingWishlistName('');
+      setEditingRecipient(null);
     } catch (error: any) {
       Alert.alert('Error', error.message);
     }
   };
 
-  const handleDragEnd = async ({ data }: { data: WishlistItem[] }) => {
-    if (!id || !wishlist || !event || !user) return;
-    
-    const isEventMember = event.members?.includes(user.uid) || false;
-    if (!isEventMember) return;
+  const handleDragEnd = async ({ data, from, to }: DragEndParams<WishlistItem>) => {
+    if (!id || !wishlist || !canEditItems || from === to) return;
 
     try {
-      await reorderWishlistItems(id, data);
+      await moveWishlistItem(
+        id,
+        wishlist.items,
+        data[to].id,
+        to > 0 ? data[to - 1].id : null,
+        to < data.length - 1 ? data[to + 1].id : null
+      );
     } catch (error: any) {
       Alert.alert('Error', error.message);
     }
   };
 
   const handleStartEditItem = (item: WishlistItem) => {
-    if (!canEdit) return;
+    if (!canEditItems) return;
     setEditingItemId(item.id);
     setEditingItemName(item.name);
+    setEditingItemAttributes({
+      size: item.size,
+      color: item.color,
+      variant: item.variant,
+      exactItem: item.exactItem,
+    });
     setShowEditDialog(true);
   };
 
@@ -309,11 +972,18 @@ export default function WishlistDetailScreen() {
     if (!id || !editingItemId || !editingItemName.trim()) return;
 
     try {
+      const attributes = trimAttributes(editingItemAttributes);
+      // Cleared attributes are removed from the item
       await updateWishlistItem(id, editingItemId, {
         name: editingItemName.trim(),
+        size: attributes.size ?? null,
+        color: attributes.color ?? null,
+        variant: attributes.variant ?? null,
+        exactItem: attributes.exactItem ?? null,
       });
       setEditingItemId(null);
       setEditingItemName('');
+      setEditingItemAttributes({});
       setShowEditDialog(false);
       // Wishlist will update automatically via real-time listener
     } catch (error: any) {
@@ -324,6 +994,7 @@ export default function WishlistDetailScreen() {
   const handleCancelEditItem = () => {
     setEditingItemId(null);
     setEditingItemName('');
+    setEditingItemAttributes({});
     setShowEditDialog(false);
   };
 
@@ -337,15 +1008,16 @@ export default function WishlistDetailScreen() {
     }
   };
 
-  const handleToggleFavorite = async (itemId: string, currentFavorite: boolean) => {
-    if (!id || !wishlist || !event || !user) return;
-    
-    const isEventMember = event.members?.includes(user.uid) || false;
-    if (!isEventMember) return;
+  const handleSetPriority = async (priority: ItemPriority) => {
+    if (!id || !priorityItemId || !canEditItems) return;
 
+    const itemId = priorityItemId;
+    setPriorityItemId(null);
     try {
+      // The legacy favorite flag is dropped once a priority is set
       await updateWishlistItem(id, itemId, {
-        isFavorite: !currentFavorite,
+        priority,
+        isFavorite: null,
       });
       // Wishlist will update automatically via real-time listener
     } catch (error: any) {
@@ -353,14 +1025,71 @@ export default function WishlistDetailScreen() {
     }
   };
 
-  if (loading) {
-    return (
-      <View style={styles.center}>
-        <ActivityIndicator size="large" />
-        <Text>Loading wishlist...</Text>
+  // Size, color, variant and exact-item inputs, shared by the add form and
+  // the edit dialog
+  const renderAttributeInputs = (
+    attributes: ItemAttributes,
+    onChange: (attributes: ItemAttributes) => void
+  ) => (
+    <>
+      <View style={styles.attributeInputRow}>
+        <TextInput
+          style={[styles.input, styles.attributeInput, { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight, color: colors.text }]}
+          placeholder="Size"
+          placeholderTextColor={colors.textTertiary}
+          value={attributes.size ?? ''}
+          onChangeText={(size) => onChange({ ...attributes, size })}
+        />
+        <TextInput
+          style={[styles.input, styles.attributeInput, { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight, color: colors.text }]}
+          placeholder="Color"
+          placeholderTextColor={colors.textTertiary}
+          value={attributes.color ?? ''}
+          onChangeText={(color) => onChange({ ...attributes, color })}
+        />
       </View>
-    );
-  }
+      <TextInput
+        style={[styles.input, { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight, color: colors.text }]}
+        placeholder="Model / variant"
+        placeholderTextColor={colors.textTertiary}
+        value={attributes.variant ?? ''}
+        onChangeText={(variant) => onChange({ ...attributes, variant })}
+      />
+      <View style={styles.currencyRow}>
+        {([
+          [true, 'Exact item only'],
+          [false, 'Similar is fine'],
+        ] as const).map(([exactItem, label]) => {
+          const isSelected = attributes.exactItem === exactItem;
+          return (
+            <TouchableOpacity
+              key={label}
+              style={[
+                styles.currencyChip,
+                { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight },
+                isSelected && styles.currencyChipSelected,
+              ]}
+              // Tapping the selected option again clears it
+              onPress={() => onChange({ ...attributes, exactItem: isSelected ? undefined : exactItem })}
+            >
+              <Text style={[styles.currencyChipText, { color: isSelected ? '#fff' : colors.text }]}>
+                {label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator size="large" />
+        <Text>Loading wishlist...</Text>
+      </View>
+    );
+  }
 
   if (!wishlist) {
     return (
@@ -370,78 +1099,238 @@ export default function WishlistDetailScreen() {
     );
   }
 
-  const isEventMember = event?.members?.includes(user?.uid || '') || false;
-  const canEdit = isEventMember; // All event members can edit
+  const isOwner = wishlist.createdBy === user?.uid;
+  const recipientId = getWishlistRecipientId(wishlist);
+  const recipientLabel = wishlist.recipientName
+    || (recipientId === user?.uid ? 'you' : userDataMap.get(recipientId || '')?.displayName);
+  const ownerLabel = isOwner ? 'your' : `${userDataMap.get(wishlist.createdBy)?.displayName || 'the owner'}'s`;
+
+  // Split items into sections:
+  // 1. Items that nobody has claimed yet, one section per priority (or a
+  //    single untitled section when sorting by price)
+  // 2. Reserved, purchased and delivered items, one section per stage.
+  //    Group gifts count as reserved while pledges come in and as
+  //    purchased once fully funded.
+  // Claims and pledges are empty for the recipient in surprise mode, so
+  // everything shows up as unclaimed for them.
+  const isSearching = searchQuery.trim() !== '';
+  // Items can only be dragged when shown in the wishlist's own order
+  const canReorder = canEditItems && !isSearching && sortOrder === 'priority' && !selectedItemIds;
+  const allItems = (wishlist.items || []).filter(item => itemMatchesSearch(item, searchQuery));
+  const claimStatusOf = (item: WishlistItem): ClaimStatus | undefined => {
+    if (!item.groupGift) {
+      return getItemFulfilment(item, claims).status;
+    }
+    const funding = getFundingProgress(item, pledges);
+    if (funding.isFullyFunded) {
+      return 'purchased';
+    }
+    return funding.pledged > 0 ? 'reserved' : undefined;
+  };
+  const sortItems = (items: WishlistItem[]) =>
+    sortOrder === 'priority'
+      ? items
+      : sortItemsByPrice(items, eventCurrency, rates, sortOrder === 'price-low' ? 'ascending' : 'descending');
+  const unclaimedItems = allItems.filter(item => !claimStatusOf(item));
+  const sections: { key: string; title: string | null; items: WishlistItem[] }[] = [
+    ...(sortOrder === 'priority'
+      ? ITEM_PRIORITIES.map(priority => ({
+          key: priority,
+          title: ITEM_PRIORITY_LABELS[priority],
+          items: unclaimedItems.filter(item => getItemPriority(item) === priority),
+        }))
+      : [{ key: 'unclaimed', title: null, items: sortItems(unclaimedItems) }]),
+    {
+      key: 'reserved',
+      title: 'Reserved',
+      items: sortItems(allItems.filter(item => claimStatusOf(item) === 'reserved')),
+    },
+    {
+      key: 'purchased',
+      title: 'Purchased',
+      items: sortItems(allItems.filter(item => claimStatusOf(item) === 'purchased')),
+    },
+    {
+      key: 'delivered',
+      title: 'Delivered / Wrapped',
+      items: sortItems(allItems.filter(item => claimStatusOf(item) === 'delivered')),
+    },
+  ].filter(section => section.items.length > 0);
+
+  const pledgeItem = allItems.find(item => item.id === pledgeItemId);
+  const priorityItem = allItems.find(item => item.id === priorityItemId);
+
+  // Converted with the exchange rates stored on this device
+  const wishlistTotal = getWishlistTotal(wishlist, eventCurrency, rates);
 
-  // Split items into three categories:
-  // 1. Favorite items that are NOT purchased
-  // 2. Purchased items (their own category, including favorited purchased items)
-  // 3. Regular items (non-favorite, non-purchased)
-  const favoriteItems = (wishlist.items || []).filter(
-    item => item.isFavorite && !item.purchasedBy
-  );
-  const purchasedItems = (wishlist.items || []).filter(item => item.purchasedBy);
-  const regularItems = (wishlist.items || []).filter(
-    item => !item.isFavorite && !item.purchasedBy
-  );
-  
   // Combine all items for drag operations (maintaining order)
-  const itemsForDrag = [
-    ...favoriteItems,
-    ...purchasedItems,
-    ...regularItems,
-  ];
+  const itemsForDrag = sections.flatMap(section => section.items);
+
+  // Index of the first item of each section, used to render headers
+  const sectionStarts = new Map<number, (typeof sections)[number]>();
+  sections.reduce((startIndex, section) => {
+    sectionStarts.set(startIndex, section);
+    return startIndex + section.items.length;
+  }, 0);
+
+  // Members a claim can be handed to: not yourself, not the hidden recipient
+  // (or their manager), and not managed profiles, which can't sign in
+  const transferCandidates = (event?.members || []).filter(
+    memberId => memberId !== user?.uid &&
+      !userDataMap.get(memberId)?.managedBy &&
+      (!(wishlist.surpriseMode ?? true) || !isWishlistRecipient(wishlist, memberId))
+  );
+
+  const claimGradients: Record<ClaimStatus, Record<'light' | 'dark', [string, string, string]>> = {
+    reserved: {
+      light: ['#E8F1FB', '#D6E6F8', '#C4DBF5'],
+      dark: ['#1a2330', '#0f1820', '#0a0f15'],
+    },
+    purchased: {
+      light: ['#E8F8F2', '#D4F4E6', '#C0F0DA'],
+      dark: ['#1a2f1a', '#0f1f0f', '#0a0f0a'],
+    },
+    delivered: {
+      light: ['#F3EAFB', '#E9DAF8', '#DFCBF5'],
+      dark: ['#2a1f33', '#1c1424', '#110c17'],
+    },
+  };
 
   const renderItem = ({ item, drag, isActive, index }: RenderItemParams<WishlistItem> & { index?: number }) => {
-    const purchaserData = item.purchasedBy ? userDataMap.get(item.purchasedBy) : null;
-    const purchaserName = purchaserData?.displayName || item.purchasedBy || 'Unknown';
+    // Items that want more than one can have a claim from several members,
+    // the actions below then apply to the user's own share
+    const isMultiClaim = allowsMultipleClaims(item);
+    const itemClaims = claims.filter(itemClaim => itemClaim.itemId === item.id);
+    const fulfilment = getItemFulfilment(item, claims);
+    const claimedQuantity = fulfilment.reserved + fulfilment.purchased;
+    const canClaimMore = fulfilment.requested === null || claimedQuantity < fulfilment.requested;
+    const claim = item.groupGift
+      ? undefined
+      : isMultiClaim
+        ? itemClaims.find(itemClaim => itemClaim.claimedBy === user?.uid)
+        : itemClaims[0];
+    const stage = claimStatusOf(item);
+    const itemPledges = pledges.filter(pledge => pledge.itemId === item.id);
+    const funding = getFundingProgress(item, pledges);
+    const ownPledge = itemPledges.find(pledge => pledge.pledgedBy === user?.uid);
+    // Prices in another currency also show the event currency equivalent
+    const convertedPrice = item.price && currencyOf(item) !== eventCurrency
+      ? convertAmount(item.price, currencyOf(item), eventCurrency, rates)
+      : null;
+    const claimerData = claim ? userDataMap.get(claim.claimedBy) : null;
+    const claimerName = claimerData?.displayName || claim?.claimedBy || 'Unknown';
+    const isClaimHolder = !!claim && claim.claimedBy === user?.uid;
     const isExpanded = expandedItemId === item.id;
+    const isSelected = !!selectedItemIds?.has(item.id);
+    const attributeLabels = getItemAttributeLabels(item);
     
-    // Show section headers before the first item of each section
-    const showFavoritesHeader = index === 0 && favoriteItems.length > 0;
-    const showPurchasedHeader = index === favoriteItems.length && purchasedItems.length > 0;
-    const showRegularHeader = index === favoriteItems.length + purchasedItems.length && regularItems.length > 0;
-    
-    // Show dividers between sections
-    const showDividerBeforePurchased = index === favoriteItems.length && 
-      favoriteItems.length > 0 && 
-      purchasedItems.length > 0;
-    const showDividerBeforeRegular = index === favoriteItems.length + purchasedItems.length &&
-      (favoriteItems.length > 0 || purchasedItems.length > 0) &&
-      regularItems.length > 0;
+    // Show a header before the first item of each section, and a divider
+    // before an untitled section if other sections come first
+    const section = index !== undefined ? sectionStarts.get(index) : undefined;
+    const showDividerBeforeUntitled = !!section && section.title === null && index !== 0;
+    const priority = getItemPriority(item);
+    const priorityIcon = PRIORITY_ICONS[priority];
     
     const cardStyle = [
       styles.itemCard,
-      item.purchasedBy && styles.itemCardPurchased,
-      item.isFavorite && !item.purchasedBy && styles.itemCardFavorite,
+      stage === 'reserved' && styles.itemCardReserved,
+      stage === 'purchased' && styles.itemCardPurchased,
+      stage === 'delivered' && styles.itemCardDelivered,
+      priority === 'must-have' && !stage && styles.itemCardMustHave,
       isActive && styles.itemCardActive,
     ];
 
+    const claimLabels: Record<ClaimStatus, string> = {
+      reserved: 'Reserved',
+      purchased: 'Purchased',
+      delivered: 'Delivered',
+    };
+    const claimEmojis: Record<ClaimStatus, string> = {
+      reserved: '🔖',
+      purchased: '💰',
+      delivered: '🎁',
+    };
+    const claimDate = claim
+      ? claim.deliveredAt || claim.purchasedAt || claim.reservedAt
+      : undefined;
+
     const cardContent = (
       <>
         <View style={styles.itemHeaderRow}>
-          {canEdit && (
+          {selectedItemIds && (
             <TouchableOpacity
-              onPress={() => handleToggleFavorite(item.id, item.isFavorite || false)}
-              style={styles.favoriteButton}
+              onPress={() => handleToggleSelected(item.id)}
+              style={styles.selectButton}
               activeOpacity={0.7}
+              accessibilityLabel={isSelected ? 'Deselect item' : 'Select item'}
             >
               <Ionicons
-                name={item.isFavorite ? "star" : "star-outline"}
+                name={isSelected ? 'checkmark-circle' : 'ellipse-outline'}
                 size={24}
-                color={item.isFavorite ? "#FFD700" : colors.textTertiary}
+                color={isSelected ? colors.primary : colors.textTertiary}
+              />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            onPress={() => setPriorityItemId(item.id)}
+            disabled={!canEditItems}
+            style={styles.priorityButton}
+            activeOpacity={0.7}
+            accessibilityLabel={`Priority: ${ITEM_PRIORITY_LABELS[priority]}`}
+          >
+            <Ionicons
+              name={priorityIcon.name}
+              size={24}
+              color={priorityIcon.color || colors.textTertiary}
+            />
+          </TouchableOpacity>
+          {item.imageUrl && !isExpanded && (
+            <TouchableOpacity onPress={() => handleToggleExpand(item.id)} activeOpacity={0.7}>
+              <Image
+                source={{ uri: item.thumbnailUrl || item.imageUrl }}
+                style={[styles.itemThumbnail, { backgroundColor: colors.surfaceSecondary }]}
+                contentFit="cover"
+                transition={150}
               />
             </TouchableOpacity>
           )}
           <TouchableOpacity
             style={styles.itemTitleArea}
-            onPress={() => handleToggleExpand(item.id)}
+            onPress={() => selectedItemIds ? handleToggleSelected(item.id) : handleToggleExpand(item.id)}
             activeOpacity={0.7}
           >
-            <Text style={[styles.itemName, { color: colors.text }]}>{item.name}</Text>
+            <Text style={[styles.itemName, { color: colors.text }]}>
+              {item.name}
+              {item.unlimited ? (
+                <Text style={[styles.itemQuantity, { color: colors.textSecondary }]}> · any number</Text>
+              ) : (item.quantity ?? 1) > 1 && (
+                <Text style={[styles.itemQuantity, { color: colors.textSecondary }]}> × {item.quantity}</Text>
+              )}
+            </Text>
+            {attributeLabels.length > 0 && (
+              <View style={styles.attributeChips}>
+                {attributeLabels.map((label) => (
+                  <View
+                    key={label}
+                    style={[
+                      styles.attributeChip,
+                      { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight },
+                      item.exactItem === true && label === 'Exact item only' && styles.attributeChipExact,
+                    ]}
+                  >
+                    <Text style={[styles.attributeChipText, { color: colors.textSecondary }]}>{label}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
           </TouchableOpacity>
-          {item.purchasedBy && !isExpanded && (
-            <Text style={styles.purchasedEmoji}>💰</Text>
+          {stage && !isExpanded && (
+            <Text style={styles.purchasedEmoji}>{item.groupGift ? '🤝' : claimEmojis[stage]}</Text>
+          )}
+          {!stage && isMultiClaim && itemClaims.length > 0 && !isExpanded && (
+            <Text style={[styles.partialCount, { color: colors.textSecondary }]}>
+              {fulfilment.requested !== null ? `${claimedQuantity}/${fulfilment.requested}` : `×${claimedQuantity}`}
+            </Text>
           )}
           <TouchableOpacity
             onPress={() => handleToggleExpand(item.id)}
@@ -454,7 +1343,7 @@ export default function WishlistDetailScreen() {
               <Ionicons name="chevron-down" size={20} color={colors.textTertiary} />
             )}
           </TouchableOpacity>
-          {canEdit && (
+          {canReorder && (
             <TouchableOpacity
               onLongPress={drag}
               disabled={isActive}
@@ -467,19 +1356,70 @@ export default function WishlistDetailScreen() {
         </View>
         {isExpanded && (
           <View style={styles.itemExpandedContent}>
-            {item.purchasedBy && (
-              <View style={styles.purchasedBadge}>
+            {item.imageUrl && (
+              <Image
+                source={{ uri: item.imageUrl }}
+                placeholder={item.thumbnailUrl ? { uri: item.thumbnailUrl } : undefined}
+                style={[styles.itemImage, { backgroundColor: colors.surfaceSecondary }]}
+                contentFit="contain"
+                transition={200}
+              />
+            )}
+            {canEditItems && (
+              <View style={styles.itemImageActions}>
+                {uploadingImageItemId === item.id ? (
+                  <ActivityIndicator size="small" color={colors.primary} />
+                ) : (
+                  <>
+                    <TouchableOpacity onPress={() => handleOpenImageOptions(item)}>
+                      <Text style={[styles.itemImageAction, { color: colors.primary }]}>
+                        {item.imageUrl ? 'Change photo' : 'Add photo'}
+                      </Text>
+                    </TouchableOpacity>
+                    {item.imageUrl && (
+                      <TouchableOpacity onPress={() => handleRemoveItemImage(item.id)}>
+                        <Text style={[styles.itemImageAction, { color: colors.error }]}>Remove photo</Text>
+                      </TouchableOpacity>
+                    )}
+                  </>
+                )}
+              </View>
+            )}
+            {claim && !isMultiClaim && (
+              <View style={[styles.purchasedBadge, claim.status === 'reserved' && styles.reservedBadge, claim.status === 'delivered' && styles.deliveredBadge]}>
                 <Text style={styles.purchasedText}>
-                  Purchased by {purchaserName}
-                  {item.purchasedAt && (
+                  {claimLabels[claim.status]} by {isClaimHolder ? 'you' : claimerName}
+                  {claimDate && (
                     <Text style={styles.purchasedDate}>
                       {' • '}
-                      {new Date(item.purchasedAt.seconds * 1000).toLocaleDateString()}
+                      {new Date(claimDate.seconds * 1000).toLocaleDateString()}
                     </Text>
                   )}
                 </Text>
               </View>
             )}
+            {isMultiClaim && itemClaims.length > 0 && (
+              <View style={styles.sharesSection}>
+                <Text style={[styles.sharesSummary, { color: colors.text }]}>
+                  {fulfilment.requested !== null
+                    ? `${fulfilment.purchased} of ${fulfilment.requested} purchased`
+                    : `${fulfilment.purchased} purchased so far`}
+                  {fulfilment.reserved > 0 && `, ${fulfilment.reserved} reserved`}
+                </Text>
+                {itemClaims.map((itemClaim) => (
+                  <View key={itemClaim.claimedBy} style={styles.contributorRow}>
+                    <Text style={[styles.contributorName, { color: colors.text }]}>
+                      {itemClaim.claimedBy === user?.uid
+                        ? 'You'
+                        : userDataMap.get(itemClaim.claimedBy)?.displayName || itemClaim.claimedBy}
+                    </Text>
+                    <Text style={[styles.contributorAmount, { color: colors.text }]}>
+                      {itemClaim.quantity} {claimLabels[itemClaim.status].toLowerCase()}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
             {item.description && (
               <Text style={[styles.itemDescription, { color: colors.textSecondary }]}>{item.description}</Text>
             )}
@@ -489,29 +1429,146 @@ export default function WishlistDetailScreen() {
               </Text>
             )}
             {item.price && (
-              <Text style={[styles.itemPrice, { color: colors.text }]}>${item.price.toFixed(2)}</Text>
+              <Text style={[styles.itemPrice, { color: colors.text }]}>
+                {formatPrice(item.price, currencyOf(item))}
+                {convertedPrice !== null && (
+                  <Text style={[styles.convertedPrice, { color: colors.textSecondary }]}>
+                    {' '}(≈ {formatPrice(convertedPrice, eventCurrency)})
+                  </Text>
+                )}
+              </Text>
             )}
-            {item.purchasedBy ? (
+            {showClaims && item.groupGift && (
+              <View style={styles.groupGiftSection}>
+                <Text style={[styles.groupGiftTitle, { color: colors.text }]}>
+                  {funding.isFullyFunded ? 'Fully funded group gift' : 'Group gift'}
+                </Text>
+                {item.price ? (
+                  <>
+                    <View style={[styles.fundingBar, { backgroundColor: colors.surfaceSecondary }]}>
+                      <View
+                        style={[
+                          styles.fundingBarFill,
+                          { width: `${Math.min(funding.pledged / item.price, 1) * 100}%` },
+                        ]}
+                      />
+                    </View>
+                    <Text style={[styles.fundingText, { color: colors.textSecondary }]}>
+                      {formatPrice(funding.pledged, currencyOf(item))} of {formatPrice(item.price, currencyOf(item))} pledged
+                      {funding.remaining ? ` • ${formatPrice(funding.remaining, currencyOf(item))} to go` : ''}
+                    </Text>
+                  </>
+                ) : (
+                  <Text style={[styles.fundingText, { color: colors.textSecondary }]}>
+                    {formatPrice(funding.pledged, currencyOf(item))} pledged • add a price to track funding
+                  </Text>
+                )}
+                {itemPledges.map((pledge) => (
+                  <View key={pledge.pledgedBy} style={styles.contributorRow}>
+                    <Text style={[styles.contributorName, { color: colors.text }]}>
+                      {pledge.pledgedBy === user?.uid
+                        ? 'You'
+                        : userDataMap.get(pledge.pledgedBy)?.displayName || pledge.pledgedBy}
+                    </Text>
+                    <Text style={[styles.contributorAmount, { color: colors.text }]}>
+                      {formatPrice(pledge.amount, currencyOf(item))}
+                    </Text>
+                  </View>
+                ))}
+                {!isReadOnly && (
+                  <View style={styles.itemActions}>
+                    {(!funding.isFullyFunded || ownPledge) && (
+                      <TouchableOpacity
+                        style={styles.reserveButton}
+                        onPress={() => handleOpenPledge(item)}
+                      >
+                        <Ionicons name="people" size={18} color="#fff" />
+                        <Text style={styles.purchaseButtonText}>
+                          {ownPledge ? 'Change Pledge' : 'Chip In'}
+                        </Text>
+                      </TouchableOpacity>
+                    )}
+                    {ownPledge && (
+                      <TouchableOpacity
+                        style={styles.unmarkPurchaseButton}
+                        onPress={() => handleWithdrawPledge(item.id)}
+                      >
+                        <Text style={styles.unmarkPurchaseButtonText}>Withdraw</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                )}
+              </View>
+            )}
+            {showClaims && !isReadOnly && !item.groupGift && !claim && canClaimMore && (
               <View style={styles.itemActions}>
                 <TouchableOpacity
-                  style={styles.unmarkPurchaseButton}
-                  onPress={() => handleUnmarkPurchased(item.id)}
+                  style={styles.reserveButton}
+                  onPress={() => handleStartClaim(item, 'reserved')}
                 >
-                  <Text style={styles.unmarkPurchaseButtonText}>Unmark as Purchased</Text>
+                  <Ionicons name="bookmark" size={18} color="#fff" />
+                  <Text style={styles.purchaseButtonText}>Reserve</Text>
                 </TouchableOpacity>
-              </View>
-            ) : (
-              <View style={styles.itemActions}>
                 <TouchableOpacity
                   style={styles.purchaseButton}
-                  onPress={() => handleMarkPurchased(item.id)}
+                  onPress={() => handleStartClaim(item, 'purchased')}
                 >
                   <Ionicons name="checkmark-circle" size={20} color="#fff" />
                   <Text style={styles.purchaseButtonText}>Mark as Purchased</Text>
                 </TouchableOpacity>
               </View>
             )}
-            {canEdit && (
+            {showClaims && !isReadOnly && claim && isClaimHolder && (
+              <>
+                <View style={styles.itemActions}>
+                  {claim.status === 'reserved' && (
+                    <TouchableOpacity
+                      style={styles.purchaseButton}
+                      onPress={() => handleClaim(item.id, 'purchased', claim.quantity)}
+                    >
+                      <Ionicons name="checkmark-circle" size={20} color="#fff" />
+                      <Text style={styles.purchaseButtonText}>Mark as Purchased</Text>
+                    </TouchableOpacity>
+                  )}
+                  {claim.status === 'purchased' && (
+                    <TouchableOpacity
+                      style={styles.deliverButton}
+                      onPress={() => handleUpdateClaimStatus(item.id, 'delivered')}
+                    >
+                      <Ionicons name="gift" size={18} color="#fff" />
+                      <Text style={styles.purchaseButtonText}>Delivered / Wrapped</Text>
+                    </TouchableOpacity>
+                  )}
+                  {claim.status === 'reserved' ? (
+                    <TouchableOpacity
+                      style={styles.unmarkPurchaseButton}
+                      onPress={() => handleUnreserve(item.id)}
+                    >
+                      <Text style={styles.unmarkPurchaseButtonText}>Unreserve</Text>
+                    </TouchableOpacity>
+                  ) : (
+                    <TouchableOpacity
+                      style={styles.unmarkPurchaseButton}
+                      onPress={() => handleUpdateClaimStatus(item.id, claim.status === 'delivered' ? 'purchased' : 'reserved')}
+                    >
+                      <Text style={styles.unmarkPurchaseButtonText}>
+                        {claim.status === 'delivered' ? 'Not Delivered Yet' : 'Unmark as Purchased'}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+                {transferCandidates.length > 0 && (
+                  <TouchableOpacity
+                    style={styles.editTitleButton}
+                    onPress={() => handleOpenTransfer(item.id)}
+                  >
+                    <Ionicons name="swap-horizontal" size={18} color={colors.primary} />
+                    <Text style={[styles.editTitleButtonText, { color: colors.primary }]}>Transfer to Someone Else</Text>
+                  </TouchableOpacity>
+                )}
+              </>
+            )}
+            {canEditItems && (
               <View style={styles.deleteButtonRow}>
                 <TouchableOpacity
                   style={styles.deleteItemButton}
@@ -522,13 +1579,26 @@ export default function WishlistDetailScreen() {
                 </TouchableOpacity>
               </View>
             )}
-            {canEdit && (
+            {canEditItems && (
               <TouchableOpacity
                 style={styles.editTitleButton}
                 onPress={() => handleStartEditItem(item)}
               >
                 <Ionicons name="create-outline" size={18} color={colors.primary} />
-                <Text style={[styles.editTitleButtonText, { color: colors.primary }]}>Edit Title</Text>
+                <Text style={[styles.editTitleButtonText, { color: colors.primary }]}>Edit Item</Text>
+              </TouchableOpacity>
+            )}
+            {/* Switching modes is only possible while nobody has claimed or pledged,
+                which only members who see the claims can tell */}
+            {canEditItems && showClaims && itemClaims.length === 0 && itemPledges.length === 0 && (
+              <TouchableOpacity
+                style={styles.editTitleButton}
+                onPress={() => handleToggleGroupGift(item)}
+              >
+                <Ionicons name="people-outline" size={18} color={colors.primary} />
+                <Text style={[styles.editTitleButtonText, { color: colors.primary }]}>
+                  {item.groupGift ? 'Make Single Gift' : 'Make Group Gift'}
+                </Text>
               </TouchableOpacity>
             )}
           </View>
@@ -538,28 +1608,19 @@ export default function WishlistDetailScreen() {
 
     return (
       <>
-        {showFavoritesHeader && (
-          <View style={styles.sectionHeaderContainer}>
-            <Text style={[styles.sectionHeader, { color: colors.text }]}>Favorites</Text>
-          </View>
-        )}
-        {showPurchasedHeader && (
-            <View style={styles.sectionHeaderContainer}>
-              <Text style={[styles.sectionHeader, { color: colors.text }]}>Purchased</Text>
-            </View>
-        )}
-        {showRegularHeader && (
+        {section && (
           <>
-            {showDividerBeforeRegular && <View style={[styles.divider, { backgroundColor: colors.border }]} />}
+            {showDividerBeforeUntitled && <View style={[styles.divider, { backgroundColor: colors.border }]} />}
             <View style={styles.sectionHeaderContainer}>
+              {section.title && (
+                <Text style={[styles.sectionHeader, { color: colors.text }]}>{section.title}</Text>
+              )}
             </View>
           </>
         )}
-        {item.purchasedBy ? (
+        {stage ? (
           <LinearGradient
-            colors={colorScheme === 'dark'
-              ? ['#1a2f1a', '#0f1f0f', '#0a0f0a']
-              : ['#E8F8F2', '#D4F4E6', '#C0F0DA']}
+            colors={claimGradients[stage][colorScheme === 'dark' ? 'dark' : 'light']}
             start={{ x: 0, y: 0 }}
             end={{ x: 1, y: 1 }}
             style={cardStyle}
@@ -568,7 +1629,7 @@ export default function WishlistDetailScreen() {
               {cardContent}
             </View>
           </LinearGradient>
-        ) : item.isFavorite ? (
+        ) : priority === 'must-have' ? (
           <LinearGradient
             colors={colorScheme === 'dark' 
               ? ['#3a2f1f', '#2a1f0f', '#1a0f0f']
@@ -600,7 +1661,34 @@ export default function WishlistDetailScreen() {
           >
             <Ionicons name="arrow-back" size={24} color={colors.primary} />
           </TouchableOpacity>
-          <Text style={[styles.wishlistName, { color: colors.text }]}>{wishlist.name}</Text>
+          <View style={styles.headerTitleArea}>
+            <Text style={[styles.wishlistName, { color: colors.text }]}>{wishlist.name}</Text>
+            {isPersonal ? (
+              <Text style={[styles.wishlistRecipient, { color: colors.textSecondary }]}>
+                Personal wishlist, share it from any event
+              </Text>
+            ) : recipientLabel && (
+              <Text style={[styles.wishlistRecipient, { color: colors.textSecondary }]}>For {recipientLabel}</Text>
+            )}
+            {wishlist.sourceWishlistId && (
+              <Text style={[styles.wishlistRecipient, { color: colors.textSecondary }]}>
+                Synced from {ownerLabel} personal wishlist
+              </Text>
+            )}
+            {isDeleted ? (
+              <Text style={[styles.wishlistRecipient, { color: colors.textSecondary }]}>
+                Deleted, read-only
+              </Text>
+            ) : isArchived ? (
+              <Text style={[styles.wishlistRecipient, { color: colors.textSecondary }]}>
+                Archived, read-only
+              </Text>
+            ) : isViewOnly && (
+              <Text style={[styles.wishlistRecipient, { color: colors.textSecondary }]}>
+                View only
+              </Text>
+            )}
+          </View>
         </View>
         {canEdit && (
           <TouchableOpacity
@@ -613,7 +1701,7 @@ export default function WishlistDetailScreen() {
         )}
       </View>
 
-      {canEdit && (
+      {canEditItems && (
         <View style={[styles.addSection, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
           {!showAddItem ? (
             <TouchableOpacity
@@ -624,6 +1712,72 @@ export default function WishlistDetailScreen() {
             </TouchableOpacity>
           ) : (
             <View style={styles.addItemForm}>
+              <TextInput
+                style={[styles.input, { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight, color: colors.text }]}
+                placeholder="Shop link (optional)"
+                placeholderTextColor={colors.textTertiary}
+                value={itemLink}
+                onChangeText={setItemLink}
+                keyboardType="url"
+                autoCapitalize="none"
+              />
+              <View style={styles.linkPreviewRow}>
+                {loadingLinkPreview ? (
+                  <>
+                    <ActivityIndicator size="small" color={colors.primary} />
+                    <Text style={[styles.linkPreviewHint, { color: colors.textSecondary }]}>Loading details from link...</Text>
+                  </>
+                ) : (
+                  <Text style={[styles.linkPreviewHint, { color: colors.textSecondary }]}>
+                    Paste a shop link to fill in the details
+                  </Text>
+                )}
+              </View>
+              {itemPhoto || itemImageUrl ? (
+                <View style={styles.linkPreviewImageRow}>
+                  <Image
+                    source={{ uri: itemPhoto?.uri || itemImageUrl }}
+                    style={styles.linkPreviewImage}
+                    contentFit="cover"
+                  />
+                  <TouchableOpacity
+                    onPress={() => {
+                      setItemPhoto(null);
+                      setItemImageUrl('');
+                    }}
+                  >
+                    <Text style={[styles.linkPreviewRemove, { color: colors.error }]}>Remove image</Text>
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <>
+                  <View style={styles.itemImageActions}>
+                    <TouchableOpacity
+                      style={[styles.photoButton, { backgroundColor: colors.surfaceSecondary }]}
+                      onPress={() => handlePickItemPhoto('camera')}
+                    >
+                      <Ionicons name="camera-outline" size={18} color={colors.text} />
+                      <Text style={[styles.photoButtonText, { color: colors.text }]}>Take Photo</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.photoButton, { backgroundColor: colors.surfaceSecondary }]}
+                      onPress={() => handlePickItemPhoto('library')}
+                    >
+                      <Ionicons name="images-outline" size={18} color={colors.text} />
+                      <Text style={[styles.photoButtonText, { color: colors.text }]}>Choose Photo</Text>
+                    </TouchableOpacity>
+                  </View>
+                  <TextInput
+                    style={[styles.input, { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight, color: colors.text }]}
+                    placeholder="Image URL (optional)"
+                    placeholderTextColor={colors.textTertiary}
+                    value={itemImageUrl}
+                    onChangeText={setItemImageUrl}
+                    keyboardType="url"
+                    autoCapitalize="none"
+                  />
+                </>
+              )}
               <TextInput
                 style={[styles.input, { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight, color: colors.text }]}
                 placeholder="Item name *"
@@ -639,15 +1793,35 @@ export default function WishlistDetailScreen() {
                 onChangeText={setItemDescription}
                 multiline
               />
-              <TextInput
-                style={[styles.input, { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight, color: colors.text }]}
-                placeholder="Link (optional)"
-                placeholderTextColor={colors.textTertiary}
-                value={itemLink}
-                onChangeText={setItemLink}
-                keyboardType="url"
-                autoCapitalize="none"
-              />
+              <View style={styles.currencyRow}>
+                {ITEM_PRIORITIES.map((priority) => {
+                  const isSelected = itemPriority === priority;
+                  return (
+                    <TouchableOpacity
+                      key={priority}
+                      style={[
+                        styles.currencyChip,
+                        { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight },
+                        isSelected && styles.currencyChipSelected,
+                      ]}
+                      onPress={() => setItemPriority(priority)}
+                    >
+                      <Text style={[styles.currencyChipText, { color: isSelected ? '#fff' : colors.text }]}>
+                        {ITEM_PRIORITY_LABELS[priority]}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              {showItemAttributes ? (
+                renderAttributeInputs(itemAttributes, setItemAttributes)
+              ) : (
+                <TouchableOpacity onPress={() => setShowItemAttributes(true)}>
+                  <Text style={[styles.linkPreviewRemove, { color: colors.primary }]}>
+                    + Size, color & variant
+                  </Text>
+                </TouchableOpacity>
+              )}
               <TextInput
                 style={[styles.input, { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight, color: colors.text }]}
                 placeholder="Price (optional)"
@@ -656,15 +1830,52 @@ export default function WishlistDetailScreen() {
                 onChangeText={setItemPrice}
                 keyboardType="decimal-pad"
               />
+              {itemPrice !== '' && (
+                <View style={styles.currencyRow}>
+                  {CURRENCIES.map((code) => {
+                    const isSelected = (itemCurrency || eventCurrency) === code;
+                    return (
+                      <TouchableOpacity
+                        key={code}
+                        style={[
+                          styles.currencyChip,
+                          { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight },
+                          isSelected && styles.currencyChipSelected,
+                        ]}
+                        onPress={() => setItemCurrency(code)}
+                      >
+                        <Text style={[styles.currencyChipText, { color: isSelected ? '#fff' : colors.text }]}>
+                          {code}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              )}
+              {!itemUnlimited && (
+                <TextInput
+                  style={[styles.input, { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight, color: colors.text }]}
+                  placeholder="Quantity (optional)"
+                  placeholderTextColor={colors.textTertiary}
+                  value={itemQuantity}
+                  onChangeText={setItemQuantity}
+                  keyboardType="number-pad"
+                />
+              )}
+              <View style={styles.modalSwitchRow}>
+                <Text style={[styles.modalSwitchText, { color: colors.text }]}>Any number welcome (e.g. gift cards)</Text>
+                <Switch value={itemUnlimited} onValueChange={setItemUnlimited} />
+              </View>
+              <View style={styles.modalSwitchRow}>
+                <Text style={[styles.modalSwitchText, { color: colors.text }]}>Group gift</Text>
+                <Switch value={itemGroupGift} onValueChange={setItemGroupGift} />
+              </View>
               <View style={styles.addItemActions}>
                 <TouchableOpacity
                   style={[styles.cancelButton, { backgroundColor: colors.surfaceSecondary }]}
                   onPress={() => {
                     setShowAddItem(false);
-                    setItemName('');
-                    setItemDescription('');
-                    setItemLink('');
-                    setItemPrice('');
+                    resetItemForm();
                   }}
                 >
                   <Text style={[styles.cancelButtonText, { color: colors.text }]}>Cancel</Text>
@@ -672,8 +1883,13 @@ export default function WishlistDetailScreen() {
                 <TouchableOpacity
                   style={styles.saveButton}
                   onPress={handleAddItem}
+                  disabled={addingItem}
                 >
-                  <Text style={styles.saveButtonText}>Add</Text>
+                  {addingItem ? (
+                    <ActivityIndicator size="small" color="#fff" />
+                  ) : (
+                    <Text style={styles.saveButtonText}>Add</Text>
+                  )}
                 </TouchableOpacity>
               </View>
             </View>
@@ -681,6 +1897,58 @@ export default function WishlistDetailScreen() {
         </View>
       )}
 
+      {(wishlist.items || []).length > 0 && (
+        <View style={[styles.listControls, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+          <View style={styles.searchBar}>
+            <Ionicons name="search" size={18} color={colors.textTertiary} />
+            <TextInput
+              style={[styles.searchInput, { color: colors.text }]}
+              placeholder="Search items, sizes, colors..."
+              placeholderTextColor={colors.textTertiary}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            {isSearching && (
+              <TouchableOpacity onPress={() => setSearchQuery('')}>
+                <Ionicons name="close-circle" size={18} color={colors.textTertiary} />
+              </TouchableOpacity>
+            )}
+          </View>
+          <View style={styles.sortRow}>
+            <Text style={[styles.sortLabel, { color: colors.textSecondary }]}>Sort:</Text>
+            {([
+              ['priority', 'Priority'],
+              ['price-low', 'Price ↑'],
+              ['price-high', 'Price ↓'],
+            ] as const).map(([order, label]) => {
+              const isSelected = sortOrder === order;
+              return (
+                <TouchableOpacity
+                  key={order}
+                  style={[
+                    styles.currencyChip,
+                    { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight },
+                    isSelected && styles.currencyChipSelected,
+                  ]}
+                  onPress={() => setSortOrder(order)}
+                >
+                  <Text style={[styles.currencyChipText, { color: isSelected ? '#fff' : colors.text }]}>
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+            <TouchableOpacity style={styles.selectToggle} onPress={handleToggleSelecting}>
+              <Text style={[styles.selectToggleText, { color: colors.primary }]}>
+                {selectedItemIds ? 'Done' : 'Select'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
       <View style={styles.scrollContainer}>
         <DraggableFlatList
           data={itemsForDrag}
@@ -692,23 +1960,74 @@ export default function WishlistDetailScreen() {
           onDragEnd={handleDragEnd}
           activationDistance={10}
           contentContainerStyle={styles.list}
-          ListEmptyComponent={
-            <View style={styles.empty}>
-              <Text style={[styles.emptyText, { color: colors.textSecondary }]}>No items yet</Text>
-              {canEdit && (
-                <Text style={[styles.emptySubtext, { color: colors.textTertiary }]}>
-                  Add items to this wishlist
+          ListFooterComponent={
+            wishlistTotal.total > 0 ? (
+              <View style={[styles.totalRow, { borderTopColor: colors.border }]}>
+                <Text style={[styles.totalLabel, { color: colors.textSecondary }]}>Total</Text>
+                <Text style={[styles.totalAmount, { color: colors.text }]}>
+                  {wishlistTotal.converted ? '≈ ' : ''}{formatPrice(wishlistTotal.total, eventCurrency)}
                 </Text>
-              )}
-            </View>
+                {wishlistTotal.missingRates.length > 0 && (
+                  <Text style={[styles.totalHint, { color: colors.textTertiary }]}>
+                    Excludes prices in {wishlistTotal.missingRates.join(', ')} (no exchange rate set)
+                  </Text>
+                )}
+              </View>
+            ) : null
+          }
+          ListEmptyComponent={
+            isSearching ? (
+              <View style={styles.empty}>
+                <Text style={[styles.emptyText, { color: colors.textSecondary }]}>No matching items</Text>
+              </View>
+            ) : (
+              <View style={styles.empty}>
+                <Text style={[styles.emptyText, { color: colors.textSecondary }]}>No items yet</Text>
+                {canEditItems && (
+                  <Text style={[styles.emptySubtext, { color: colors.textTertiary }]}>
+                    Add items to this wishlist
+                  </Text>
+                )}
+              </View>
+            )
           }
         />
       </View>
 
+      {selectedItemIds && (
+        <View style={[styles.selectionBar, { backgroundColor: colors.surface, borderTopColor: colors.border }]}>
+          <Text style={[styles.selectionCount, { color: colors.textSecondary }]}>
+            {selectedItemIds.size} selected
+          </Text>
+          {transferringItems ? (
+            <ActivityIndicator size="small" color={colors.primary} />
+          ) : (
+            <>
+              <TouchableOpacity
+                style={[styles.selectionButton, selectedItemIds.size === 0 && styles.selectionButtonDisabled]}
+                onPress={() => handleOpenItemTargets('copy')}
+                disabled={selectedItemIds.size === 0}
+              >
+                <Text style={styles.selectionButtonText}>Copy to…</Text>
+              </TouchableOpacity>
+              {canEditItems && (
+                <TouchableOpacity
+                  style={[styles.selectionButton, selectedItemIds.size === 0 && styles.selectionButtonDisabled]}
+                  onPress={() => handleOpenItemTargets('move')}
+                  disabled={selectedItemIds.size === 0}
+                >
+                  <Text style={styles.selectionButtonText}>Move to…</Text>
+                </TouchableOpacity>
+              )}
+            </>
+          )}
+        </View>
+      )}
+
       {showEditDialog && (
         <View style={[styles.modal, { backgroundColor: 'rgba(0, 0, 0, 0.5)' }]}>
           <View style={[styles.modalContent, { backgroundColor: colors.surface }]}>
-            <Text style={[styles.modalTitle, { color: colors.text }]}>Edit Item Title</Text>
+            <Text style={[styles.modalTitle, { color: colors.text }]}>Edit Item</Text>
             <TextInput
               style={[styles.modalInput, { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight, color: colors.text }]}
               value={editingItemName}
@@ -717,6 +2036,9 @@ export default function WishlistDetailScreen() {
               placeholderTextColor={colors.textTertiary}
               autoFocus
             />
+            <View style={styles.editAttributes}>
+              {renderAttributeInputs(editingItemAttributes, setEditingItemAttributes)}
+            </View>
             <View style={styles.modalActions}>
               <TouchableOpacity
                 style={[styles.modalCancelButton, { backgroundColor: colors.surfaceSecondary }]}
@@ -726,14 +2048,253 @@ export default function WishlistDetailScreen() {
               </TouchableOpacity>
               <TouchableOpacity
                 style={styles.modalSaveButton}
-                onPress={handleSaveEditItem}
+                onPress={handleSaveEditItem}
+              >
+                <Text style={styles.modalSaveButtonText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      )}
+
+      <Modal
+        visible={claimConflict !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setClaimConflict(null)}
+      >
+        <View style={[styles.modal, { backgroundColor: 'rgba(0, 0, 0, 0.5)' }]}>
+          <View style={[styles.modalContent, { backgroundColor: colors.surface }]}>
+            <View style={styles.conflictHeader}>
+              <Ionicons name="alert-circle" size={28} color="#FF9500" />
+              <Text style={[styles.conflictTitle, { color: colors.text }]}>Already Claimed</Text>
+            </View>
+            <Text style={[styles.conflictMessage, { color: colors.textSecondary }]}>
+              <Text style={[styles.conflictEmphasis, { color: colors.text }]}>{claimConflict?.claimedByName}</Text>
+              {' already claimed '}
+              <Text style={[styles.conflictEmphasis, { color: colors.text }]}>{claimConflict?.itemName}</Text>
+              {'. Pick something else so you don\'t buy the same gift twice.'}
+            </Text>
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={styles.modalSaveButton}
+                onPress={() => setClaimConflict(null)}
+              >
+                <Text style={styles.modalSaveButtonText}>OK</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={transferItemId !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setTransferItemId(null)}
+      >
+        <TouchableOpacity
+          style={[styles.modal, { backgroundColor: 'rgba(0, 0, 0, 0.5)' }]}
+          activeOpacity={1}
+          onPress={() => setTransferItemId(null)}
+        >
+          <View style={[styles.modalContent, { backgroundColor: colors.surface }]}>
+            <Text style={[styles.modalTitle, { color: colors.text }]}>Transfer To</Text>
+            {transferCandidates.map((memberId) => (
+              <TouchableOpacity
+                key={memberId}
+                style={[styles.memberOption, { backgroundColor: colors.surfaceSecondary }]}
+                onPress={() => handleTransfer(memberId)}
+              >
+                <Text style={[styles.memberOptionText, { color: colors.text }]}>
+                  {userDataMap.get(memberId)?.displayName || memberId}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={[styles.modalCancelButton, { backgroundColor: colors.surfaceSecondary }]}
+                onPress={() => setTransferItemId(null)}
+              >
+                <Text style={[styles.modalCancelButtonText, { color: colors.text }]}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </TouchableOpacity>
+      </Modal>
+
+      <Modal
+        visible={itemAction !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setItemAction(null)}
+      >
+        <TouchableOpacity
+          style={[styles.modal, { backgroundColor: 'rgba(0, 0, 0, 0.5)' }]}
+          activeOpacity={1}
+          onPress={() => setItemAction(null)}
+        >
+          <View style={[styles.modalContent, { backgroundColor: colors.surface }]}>
+            <Text style={[styles.modalTitle, { color: colors.text }]}>
+              {itemAction === 'move' ? 'Move To' : 'Copy To'}
+            </Text>
+            {itemTargets === null ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : itemTargets.length === 0 ? (
+              <Text style={[styles.modalHint, { color: colors.textSecondary }]}>
+                There are no other wishlists you can add items to
+              </Text>
+            ) : (
+              <ScrollView style={styles.targetList}>
+                {itemTargets.map((target, index) => {
+                  const groupName = target.eventName ?? 'Personal';
+                  const showGroup = index === 0 || (itemTargets[index - 1].eventName ?? 'Personal') !== groupName;
+                  return (
+                    <View key={target.wishlistId}>
+                      {showGroup && (
+                        <Text style={[styles.targetGroup, { color: colors.textSecondary }]}>{groupName}</Text>
+                      )}
+                      <TouchableOpacity
+                        style={[styles.memberOption, { backgroundColor: colors.surfaceSecondary }]}
+                        onPress={() => handleSelectItemTarget(target)}
+                      >
+                        <Text style={[styles.memberOptionText, { color: colors.text }]}>{target.name}</Text>
+                      </TouchableOpacity>
+                    </View>
+                  );
+                })}
+              </ScrollView>
+            )}
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={[styles.modalCancelButton, { backgroundColor: colors.surfaceSecondary }]}
+                onPress={() => setItemAction(null)}
+              >
+                <Text style={[styles.modalCancelButtonText, { color: colors.text }]}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </TouchableOpacity>
+      </Modal>
+
+      <Modal
+        visible={priorityItemId !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setPriorityItemId(null)}
+      >
+        <TouchableOpacity
+          style={[styles.modal, { backgroundColor: 'rgba(0, 0, 0, 0.5)' }]}
+          activeOpacity={1}
+          onPress={() => setPriorityItemId(null)}
+        >
+          <View style={[styles.modalContent, { backgroundColor: colors.surface }]}>
+            <Text style={[styles.modalTitle, { color: colors.text }]}>Priority</Text>
+            {ITEM_PRIORITIES.map((priority) => {
+              const isSelected = !!priorityItem && getItemPriority(priorityItem) === priority;
+              return (
+                <TouchableOpacity
+                  key={priority}
+                  style={[styles.memberOption, styles.priorityOption, { backgroundColor: colors.surfaceSecondary }]}
+                  onPress={() => handleSetPriority(priority)}
+                >
+                  <Ionicons
+                    name={PRIORITY_ICONS[priority].name}
+                    size={20}
+                    color={PRIORITY_ICONS[priority].color || colors.textTertiary}
+                  />
+                  <Text style={[styles.memberOptionText, styles.priorityOptionText, { color: colors.text }]}>
+                    {ITEM_PRIORITY_LABELS[priority]}
+                  </Text>
+                  {isSelected && <Ionicons name="checkmark" size={20} color={colors.primary} />}
+                </TouchableOpacity>
+              );
+            })}
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={[styles.modalCancelButton, { backgroundColor: colors.surfaceSecondary }]}
+                onPress={() => setPriorityItemId(null)}
+              >
+                <Text style={[styles.modalCancelButtonText, { color: colors.text }]}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </TouchableOpacity>
+      </Modal>
+
+      <Modal
+        visible={quantityClaim !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={handleCloseQuantityClaim}
+      >
+        <View style={[styles.modal, { backgroundColor: 'rgba(0, 0, 0, 0.5)' }]}>
+          <View style={[styles.modalContent, { backgroundColor: colors.surface }]}>
+            <Text style={[styles.modalTitle, { color: colors.text }]}>
+              {quantityClaim?.status === 'purchased' ? 'How many did you buy?' : 'How many will you get?'}
+            </Text>
+            <TextInput
+              style={[styles.modalInput, { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight, color: colors.text }]}
+              value={claimQuantity}
+              onChangeText={setClaimQuantity}
+              placeholder="Quantity"
+              placeholderTextColor={colors.textTertiary}
+              keyboardType="number-pad"
+              autoFocus
+            />
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={[styles.modalCancelButton, { backgroundColor: colors.surfaceSecondary }]}
+                onPress={handleCloseQuantityClaim}
+              >
+                <Text style={[styles.modalCancelButtonText, { color: colors.text }]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.modalSaveButton}
+                onPress={handleSaveQuantityClaim}
+              >
+                <Text style={styles.modalSaveButtonText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={pledgeItemId !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={handleClosePledge}
+      >
+        <View style={[styles.modal, { backgroundColor: 'rgba(0, 0, 0, 0.5)' }]}>
+          <View style={[styles.modalContent, { backgroundColor: colors.surface }]}>
+            <Text style={[styles.modalTitle, { color: colors.text }]}>Chip In</Text>
+            <TextInput
+              style={[styles.modalInput, { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight, color: colors.text }]}
+              value={pledgeAmount}
+              onChangeText={setPledgeAmount}
+              placeholder={pledgeItem ? `Amount in ${currencyOf(pledgeItem)}` : 'Amount'}
+              placeholderTextColor={colors.textTertiary}
+              keyboardType="decimal-pad"
+              autoFocus
+            />
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={[styles.modalCancelButton, { backgroundColor: colors.surfaceSecondary }]}
+                onPress={handleClosePledge}
+              >
+                <Text style={[styles.modalCancelButtonText, { color: colors.text }]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.modalSaveButton}
+                onPress={handleSavePledge}
               >
-                <Text style={styles.modalSaveButtonText}>Save</Text>
+                <Text style={styles.modalSaveButtonText}>Pledge</Text>
               </TouchableOpacity>
             </View>
           </View>
         </View>
-      )}
+      </Modal>
 
       <Modal
         visible={showSettingsModal}
@@ -757,6 +2318,33 @@ export default function WishlistDetailScreen() {
               placeholderTextColor={colors.textTertiary}
               autoFocus
             />
+            {/* A recipient in surprise mode could otherwise switch it off to read the claims */}
+            {isOwner && !isPersonal && showClaims && user && editingRecipient && (
+              <View style={styles.recipientSetting}>
+                <Text style={[styles.modalLabel, { color: colors.text }]}>Who is it for?</Text>
+                <RecipientPicker
+                  memberIds={event?.members || []}
+                  getMemberName={(memberId) => userDataMap.get(memberId)?.displayName || memberId}
+                  currentUserId={user.uid}
+                  value={editingRecipient}
+                  onChange={setEditingRecipient}
+                />
+              </View>
+            )}
+            {isOwner && !isPersonal && showClaims && (
+              <View style={styles.modalSwitchRow}>
+                <View style={styles.modalSwitchText}>
+                  <Text style={[styles.modalLabel, { color: colors.text }]}>Surprise mode</Text>
+                  <Text style={[styles.modalHint, { color: colors.textSecondary }]}>
+                    Hide which items have been purchased from the recipient
+                  </Text>
+                </View>
+                <Switch
+                  value={wishlist.surpriseMode ?? true}
+                  onValueChange={handleToggleSurpriseMode}
+                />
+              </View>
+            )}
             <View style={styles.modalActions}>
               <TouchableOpacity
                 style={[styles.modalCancelButton, { backgroundColor: colors.surfaceSecondary }]}
@@ -766,18 +2354,30 @@ export default function WishlistDetailScreen() {
               </TouchableOpacity>
               <TouchableOpacity
                 style={styles.modalSaveButton}
-                onPress={handleUpdateWishlistName}
+                onPress={handleSaveSettings}
               >
                 <Text style={styles.modalSaveButtonText}>Save</Text>
               </TouchableOpacity>
             </View>
-            <TouchableOpacity
-              style={styles.modalDeleteButton}
-              onPress={handleDeleteWishlist}
-            >
-              <Ionicons name="trash" size={18} color="#fff" />
-              <Text style={styles.modalDeleteButtonText}>Delete Wishlist</Text>
-            </TouchableOpacity>
+            {isOwner && wishlist.sourceWishlistId && (
+              <TouchableOpacity
+                style={styles.modalUnlinkButton}
+                onPress={handleUnlinkWishlist}
+              >
+                <Ionicons name="unlink" size={18} color={colors.primary} />
+                <Text style={[styles.modalUnlinkButtonText, { color: colors.primary }]}>Stop Syncing</Text>
+              </TouchableOpacity>
+            )}
+            {/* The personal wishlist is kept, it can be emptied instead */}
+            {!isPersonal && (
+              <TouchableOpacity
+                style={styles.modalDeleteButton}
+                onPress={handleDeleteWishlist}
+              >
+                <Ionicons name="trash" size={18} color="#fff" />
+                <Text style={styles.modalDeleteButtonText}>Delete Wishlist</Text>
+              </TouchableOpacity>
+            )}
           </View>
         </TouchableOpacity>
       </Modal>
@@ -843,13 +2443,22 @@ const styles = StyleSheet.create({
     marginRight: 12,
     padding: 4,
   },
-  wishlistName: {
-    fontSize: 28,
-    fontWeight: 'bold',
+  headerTitleArea: {
     flex: 1,
     flexShrink: 1,
     marginRight: 8,
   },
+  wishlistName: {
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  wishlistRecipient: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  recipientSetting: {
+    marginBottom: 16,
+  },
   settingsButton: {
     padding: 4,
     minWidth: 32,
@@ -891,6 +2500,29 @@ const styles = StyleSheet.create({
     padding: 12,
     fontSize: 16,
   },
+  linkPreviewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: -4,
+  },
+  linkPreviewHint: {
+    fontSize: 12,
+  },
+  linkPreviewImageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  linkPreviewImage: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+  },
+  linkPreviewRemove: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   addItemActions: {
     flexDirection: 'row',
     gap: 12,
@@ -933,11 +2565,19 @@ const styles = StyleSheet.create({
       },
     }),
   },
+  itemCardReserved: {
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
   itemCardPurchased: {
     borderWidth: 1,
     borderColor: '#4CAF50',
   },
-  itemCardFavorite: {
+  itemCardDelivered: {
+    borderWidth: 1,
+    borderColor: '#AF52DE',
+  },
+  itemCardMustHave: {
     borderWidth: 1,
     borderColor: '#FFD700',
   },
@@ -953,12 +2593,134 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     width: '100%',
   },
-  favoriteButton: {
+  selectButton: {
+    marginRight: 8,
+  },
+  priorityButton: {
     marginRight: 12,
     paddingHorizontal: 4,
     justifyContent: 'center',
     alignItems: 'center',
   },
+  itemThumbnail: {
+    width: 40,
+    height: 40,
+    borderRadius: 6,
+    marginRight: 12,
+  },
+  itemImage: {
+    width: '100%',
+    height: 220,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  itemImageActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    marginBottom: 8,
+  },
+  itemImageAction: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  photoButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    padding: 10,
+    borderRadius: 8,
+  },
+  photoButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  attributeChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 6,
+  },
+  attributeChip: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  attributeChipExact: {
+    borderColor: '#FF9500',
+  },
+  attributeChipText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  attributeInputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  attributeInput: {
+    flex: 1,
+  },
+  listControls: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    gap: 8,
+    borderBottomWidth: 1,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  sortRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  sortLabel: {
+    fontSize: 14,
+  },
+  selectToggle: {
+    marginLeft: 'auto',
+    paddingHorizontal: 4,
+  },
+  selectToggleText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  selectionBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+  },
+  selectionCount: {
+    flex: 1,
+    fontSize: 14,
+  },
+  selectionButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  selectionButtonDisabled: {
+    opacity: 0.5,
+  },
+  selectionButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    paddingVertical: 4,
+  },
   itemTitleArea: {
     flex: 1,
     marginRight: 8,
@@ -1054,6 +2816,12 @@ const styles = StyleSheet.create({
     maxWidth: '70%',
     marginBottom: 12,
   },
+  reservedBadge: {
+    backgroundColor: '#007AFF',
+  },
+  deliveredBadge: {
+    backgroundColor: '#AF52DE',
+  },
   purchasedText: {
     color: '#fff',
     fontSize: 12,
@@ -1099,6 +2867,26 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: 8,
   },
+  reserveButton: {
+    flex: 1,
+    backgroundColor: '#007AFF',
+    padding: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    flexDirection: 'row',
+    gap: 8,
+  },
+  deliverButton: {
+    flex: 1,
+    backgroundColor: '#AF52DE',
+    padding: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    flexDirection: 'row',
+    gap: 8,
+  },
   purchaseButtonText: {
     color: '#fff',
     fontWeight: '600',
@@ -1171,6 +2959,9 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginBottom: 20,
   },
+  editAttributes: {
+    gap: 12,
+  },
   modalActions: {
     flexDirection: 'row',
     gap: 12,
@@ -1200,6 +2991,166 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginBottom: 8,
   },
+  convertedPrice: {
+    fontSize: 14,
+    fontWeight: '400',
+  },
+  currencyRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  currencyChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  currencyChipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  currencyChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  totalRow: {
+    borderTopWidth: 1,
+    marginTop: 8,
+    paddingTop: 12,
+    alignItems: 'flex-end',
+  },
+  totalLabel: {
+    fontSize: 13,
+  },
+  totalAmount: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  totalHint: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  itemQuantity: {
+    fontSize: 14,
+    fontWeight: '400',
+  },
+  partialCount: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  sharesSection: {
+    marginBottom: 8,
+  },
+  sharesSummary: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  groupGiftSection: {
+    marginTop: 12,
+  },
+  groupGiftTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  fundingBar: {
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  fundingBarFill: {
+    height: '100%',
+    borderRadius: 4,
+    backgroundColor: '#4CAF50',
+  },
+  fundingText: {
+    fontSize: 13,
+    marginTop: 6,
+    marginBottom: 4,
+  },
+  contributorRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  contributorName: {
+    fontSize: 14,
+  },
+  contributorAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  memberOption: {
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  memberOptionText: {
+    fontSize: 16,
+  },
+  targetList: {
+    maxHeight: 360,
+  },
+  targetGroup: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 4,
+    marginBottom: 6,
+  },
+  priorityOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  priorityOptionText: {
+    flex: 1,
+  },
+  conflictHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  conflictTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  conflictMessage: {
+    fontSize: 16,
+    lineHeight: 22,
+    marginBottom: 20,
+  },
+  conflictEmphasis: {
+    fontWeight: '600',
+  },
+  modalSwitchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 20,
+  },
+  modalSwitchText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  modalHint: {
+    fontSize: 12,
+  },
+  modalUnlinkButton: {
+    padding: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  modalUnlinkButtonText: {
+    fontWeight: '600',
+  },
   modalDeleteButton: {
     backgroundColor: '#FF3B30',
     padding: 12,
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -13,8 +13,18 @@ import {
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
+import RecipientPicker from '../../components/RecipientPicker';
 import { useAuth } from '../../contexts/AuthContext';
-import { createWishlist } from '../../lib/firestore/wishlists';
+import { getUserData, UserData } from '../../lib/auth';
+import { getEvent } from '../../lib/firestore/events';
+import {
+  createWishlist,
+  getPersonalWishlistId,
+  getWishlist,
+  ShareMode,
+  sharePersonalWishlist,
+  WishlistRecipient,
+} from '../../lib/firestore/wishlists';
 import { getColors } from '../../lib/theme';
 
 export default function CreateWishlistScreen() {
@@ -25,6 +35,53 @@ export default function CreateWishlistScreen() {
   const colors = getColors(colorScheme);
   const [name, setName] = useState('');
   const [loading, setLoading] = useState(false);
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+  const [members, setMembers] = useState<Map<string, UserData>>(new Map());
+  const [recipient, setRecipient] = useState<WishlistRecipient | null>(null);
+  // Items of the user's personal wishlist, null while loading or if they have none
+  const [personalItemCount, setPersonalItemCount] = useState<number | null>(null);
+  // Start from the personal wishlist instead of an empty list
+  const [shareMode, setShareMode] = useState<ShareMode | null>(null);
+
+  // Load the event's members so the list can be made for one of them
+  useEffect(() => {
+    if (!eventId) return;
+
+    const loadMembers = async () => {
+      try {
+        const event = await getEvent(eventId);
+        const eventMemberIds = event?.members || [];
+        setMemberIds(eventMemberIds);
+
+        const memberData = await Promise.all(
+          eventMemberIds.map(async (memberId) => [memberId, await getUserData(memberId)] as const)
+        );
+        const membersMap = new Map<string, UserData>();
+        memberData.forEach(([memberId, userData]) => {
+          if (userData) {
+            membersMap.set(memberId, userData);
+          }
+        });
+        setMembers(membersMap);
+      } catch (error) {
+        console.error('Error loading event members:', error);
+      }
+    };
+
+    loadMembers();
+  }, [eventId]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    getWishlist(getPersonalWishlistId(user.uid))
+      .then((personalWishlist) => {
+        setPersonalItemCount(personalWishlist?.items.length || null);
+      })
+      .catch((error) => {
+        console.error('Error loading personal wishlist:', error);
+      });
+  }, [user]);
 
   const handleCreate = async () => {
     if (!name.trim()) {
@@ -42,9 +99,35 @@ export default function CreateWishlistScreen() {
       return;
     }
 
+    if (recipient?.type === 'named' && !recipient.name.trim()) {
+      Alert.alert('Error', 'Please enter who this wishlist is for');
+      return;
+    }
+
     setLoading(true);
     try {
-      const wishlistId = await createWishlist(name.trim(), eventId, user.uid);
+      if (shareMode) {
+        const wishlistId = await sharePersonalWishlist(
+          getPersonalWishlistId(user.uid),
+          eventId,
+          user.uid,
+          shareMode,
+          name.trim()
+        );
+        router.replace(`/wishlists/${wishlistId}`);
+        return;
+      }
+
+      // Lists are for their creator unless someone else was picked
+      const isForSomeoneElse = recipient && (recipient.type === 'named' || recipient.userId !== user.uid);
+      const wishlistId = await createWishlist(
+        name.trim(),
+        eventId,
+        user.uid,
+        isForSomeoneElse
+          ? recipient.type === 'named' ? { type: 'named', name: recipient.name.trim() } : recipient
+          : undefined
+      );
       router.replace(`/wishlists/${wishlistId}`);
     } catch (error: any) {
       Alert.alert('Error', error.message);
@@ -78,6 +161,55 @@ export default function CreateWishlistScreen() {
             onSubmitEditing={handleCreate}
           />
 
+          {personalItemCount !== null && (
+            <>
+              <Text style={[styles.label, { color: colors.text }]}>Start from</Text>
+              <View style={styles.options}>
+                {([
+                  [null, 'Empty list'],
+                  ['live', 'My wishlist (synced)'],
+                  ['snapshot', 'My wishlist (copy)'],
+                ] as const).map(([mode, label]) => {
+                  const isSelected = shareMode === mode;
+                  return (
+                    <TouchableOpacity
+                      key={label}
+                      style={[
+                        styles.option,
+                        { backgroundColor: colors.surface, borderColor: colors.borderLight },
+                        isSelected && styles.optionSelected,
+                      ]}
+                      onPress={() => setShareMode(mode)}
+                    >
+                      <Text style={[styles.optionText, { color: isSelected ? '#fff' : colors.text }]}>{label}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              {shareMode && (
+                <Text style={[styles.hint, { color: colors.textSecondary }]}>
+                  {shareMode === 'live'
+                    ? `The ${personalItemCount} item${personalItemCount !== 1 ? 's' : ''} of your personal wishlist are shown here and stay up to date when you change them.`
+                    : `The ${personalItemCount} item${personalItemCount !== 1 ? 's' : ''} of your personal wishlist are copied once and can then be edited here.`}
+                  {' '}What was bought is only tracked for this event.
+                </Text>
+              )}
+            </>
+          )}
+
+          {user && !shareMode && (
+            <>
+              <Text style={[styles.label, { color: colors.text }]}>Who is it for?</Text>
+              <RecipientPicker
+                memberIds={memberIds}
+                getMemberName={(memberId) => members.get(memberId)?.displayName || memberId}
+                currentUserId={user.uid}
+                value={recipient ?? { type: 'member', userId: user.uid }}
+                onChange={setRecipient}
+              />
+            </>
+          )}
+
           <TouchableOpacity
             style={[styles.button, loading && styles.buttonDisabled]}
             onPress={handleCreate}
@@ -135,6 +267,29 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginBottom: 16,
   },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  optionSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 14,
+    marginTop: 8,
+  },
   button: {
     backgroundColor: '#007AFF',
     borderRadius: 8,
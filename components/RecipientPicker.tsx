@@ -0,0 +1,101 @@
+import { StyleSheet, Text, TextInput, TouchableOpacity, useColorScheme, View } from 'react-native';
+import { WishlistRecipient } from '../lib/firestore/wishlists';
+import { getColors } from '../lib/theme';
+
+interface RecipientPickerProps {
+  // Event members that can be picked, the current user is shown as "Me"
+  memberIds: string[];
+  getMemberName: (memberId: string) => string;
+  currentUserId: string;
+  value: WishlistRecipient;
+  onChange: (recipient: WishlistRecipient) => void;
+}
+
+// Pick who a wishlist is for: an event member, or someone without an account
+// who is only known by name
+export default function RecipientPicker({
+  memberIds,
+  getMemberName,
+  currentUserId,
+  value,
+  onChange,
+}: RecipientPickerProps) {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+
+  // The current user comes first
+  const sortedMemberIds = [
+    currentUserId,
+    ...memberIds.filter((memberId) => memberId !== currentUserId),
+  ];
+
+  const renderOption = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.option,
+        { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight },
+        isSelected && styles.optionSelected,
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.optionText, { color: isSelected ? '#fff' : colors.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      <View style={styles.options}>
+        {sortedMemberIds.map((memberId) =>
+          renderOption(
+            memberId,
+            memberId === currentUserId ? 'Me' : getMemberName(memberId),
+            value.type === 'member' && value.userId === memberId,
+            () => onChange({ type: 'member', userId: memberId })
+          )
+        )}
+        {renderOption('named', 'Someone else', value.type === 'named', () =>
+          onChange({ type: 'named', name: value.type === 'named' ? value.name : '' })
+        )}
+      </View>
+      {value.type === 'named' && (
+        <TextInput
+          style={[styles.input, { backgroundColor: colors.surfaceSecondary, borderColor: colors.borderLight, color: colors.text }]}
+          placeholder="Name, e.g. a kid or a pet"
+          placeholderTextColor={colors.textTertiary}
+          value={value.name}
+          onChangeText={(name) => onChange({ type: 'named', name })}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  optionSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginTop: 12,
+  },
+});
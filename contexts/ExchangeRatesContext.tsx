@@ -0,0 +1,50 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import {
+  DEFAULT_EXCHANGE_RATES,
+  ExchangeRates,
+  loadExchangeRates,
+  resetExchangeRates,
+  saveExchangeRates,
+} from '../lib/currency';
+
+interface ExchangeRatesContextType {
+  rates: ExchangeRates;
+  setRate: (currency: string, rate: number) => Promise<void>;
+  resetRates: () => Promise<void>;
+}
+
+const ExchangeRatesContext = createContext<ExchangeRatesContextType | undefined>(undefined);
+
+export const ExchangeRatesProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [rates, setRates] = useState<ExchangeRates>(DEFAULT_EXCHANGE_RATES);
+
+  useEffect(() => {
+    loadExchangeRates().then(setRates);
+  }, []);
+
+  const setRate = async (currency: string, rate: number) => {
+    const updatedRates = { ...rates, [currency]: rate };
+    setRates(updatedRates);
+    await saveExchangeRates(updatedRates);
+  };
+
+  const resetRates = async () => {
+    setRates(await resetExchangeRates());
+  };
+
+  return (
+    <ExchangeRatesContext.Provider value={{ rates, setRate, resetRates }}>
+      {children}
+    </ExchangeRatesContext.Provider>
+  );
+};
+
+export const useExchangeRates = () => {
+  const context = useContext(ExchangeRatesContext);
+  if (context === undefined) {
+    throw new Error('useExchangeRates must be used within an ExchangeRatesProvider');
+  }
+  return context;
+};
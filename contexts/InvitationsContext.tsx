@@ -3,9 +3,9 @@ import { Platform } from 'react-native';
 import Constants from 'expo-constants';
 import { useAuth } from './AuthContext';
 import {
-  EventWithInvitation,
-  subscribeToEventsWithPendingInvitations,
-} from '../lib/firestore/events';
+  Invitation,
+  subscribeToPendingInvitations,
+} from '../lib/firestore/invitations';
 
 // Lazy-load expo-notifications to avoid errors in Expo Go (SDK 53+)
 // This function only loads the module when actually called, not at module load time
@@ -41,7 +41,7 @@ function getNotifications() {
 }
 
 interface InvitationsContextType {
-  pendingInvitations: EventWithInvitation[];
+  pendingInvitations: Invitation[];
   invitationCount: number;
 }
 
@@ -54,7 +54,7 @@ export const useInvitations = () => useContext(InvitationsContext);
 
 export function InvitationsProvider({ children }: { children: ReactNode }) {
   const { user } = useAuth();
-  const [pendingInvitations, setPendingInvitations] = useState<EventWithInvitation[]>([]);
+  const [pendingInvitations, setPendingInvitations] = useState<Invitation[]>([]);
   const previousCountRef = useRef(0);
 
   useEffect(() => {
@@ -96,10 +96,10 @@ export function InvitationsProvider({ children }: { children: ReactNode }) {
       }
     }
 
-    const unsubscribe = subscribeToEventsWithPendingInvitations(
+    const unsubscribe = subscribeToPendingInvitations(
       user.email,
-      (events) => {
-        const newCount = events.length;
+      (invitations) => {
+        const newCount = invitations.length;
         const oldCount = previousCountRef.current;
 
         // Show notification when new invitations arrive (only on native platforms and if notifications are available)
@@ -113,7 +113,7 @@ export function InvitationsProvider({ children }: { children: ReactNode }) {
                   title: 'New Invitation' + (newInvites > 1 ? 's' : ''),
                   body:
                     newInvites === 1
-                      ? `You've been invited to "${events[events.length - 1].name}"`
+                      ? `You've been invited to "${invitations[invitations.length - 1].eventName}"`
                       : `You have ${newInvites} new event invitation${newInvites > 1 ? 's' : ''}`,
                   sound: true,
                   badge: newCount,
@@ -129,7 +129,7 @@ export function InvitationsProvider({ children }: { children: ReactNode }) {
                   title: 'New Invitation' + (newCount > 1 ? 's' : ''),
                   body:
                     newCount === 1
-                      ? `You've been invited to "${events[0].name}"`
+                      ? `You've been invited to "${invitations[0].eventName}"`
                       : `You have ${newCount} new event invitation${newCount > 1 ? 's' : ''}`,
                   sound: true,
                   badge: newCount,
@@ -147,7 +147,7 @@ export function InvitationsProvider({ children }: { children: ReactNode }) {
           }
         }
 
-        setPendingInvitations(events);
+        setPendingInvitations(invitations);
         previousCountRef.current = newCount;
       },
       (error) => {
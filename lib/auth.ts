@@ -38,6 +38,10 @@ export interface UserData {
   email: string;
   displayName: string;
   createdAt: Date;
+  // Set on managed profiles (e.g. kids without an account, see
+  // lib/firestore/dependents.ts): userId of the account managing the profile
+  managedBy?: string;
+  avatarUrl?: string;
 }
 
 export const signUp = async (
@@ -0,0 +1,116 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Prices are stored with an ISO 4217 currency code. Items without one use
+// their event's currency, and events without one use DEFAULT_CURRENCY.
+export const DEFAULT_CURRENCY = 'USD';
+
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'CHF', 'CAD', 'AUD', 'SEK', 'NOK', 'DKK', 'PLN', 'JPY'];
+
+// Units of each currency worth one unit of the base currency (USD). Rates
+// are only a starting point, users edit them on their profile screen.
+export type ExchangeRates = Record<string, number>;
+
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  CHF: 0.88,
+  CAD: 1.37,
+  AUD: 1.52,
+  SEK: 10.6,
+  NOK: 10.8,
+  DKK: 6.87,
+  PLN: 3.98,
+  JPY: 151,
+};
+
+const EXCHANGE_RATES_STORAGE_KEY = 'exchangeRates';
+
+export const formatPrice = (amount: number, currency: string = DEFAULT_CURRENCY): string => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    // Unknown currency codes can't be formatted as currency
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
+
+// Convert an amount between currencies. Returns null when a rate is missing.
+export const convertAmount = (
+  amount: number,
+  from: string,
+  to: string,
+  rates: ExchangeRates
+): number | null => {
+  if (from === to) {
+    return amount;
+  }
+  const fromRate = rates[from];
+  const toRate = rates[to];
+  if (!fromRate || !toRate) {
+    return null;
+  }
+  return (amount / fromRate) * toRate;
+};
+
+export interface ConvertedTotal {
+  total: number;
+  // Whether any amount had to be converted, i.e. the total is an estimate
+  converted: boolean;
+  // Currencies that couldn't be converted and were left out of the total
+  missingRates: string[];
+}
+
+export const sumInCurrency = (
+  amounts: { amount: number; currency: string }[],
+  currency: string,
+  rates: ExchangeRates
+): ConvertedTotal => {
+  return amounts.reduce<ConvertedTotal>(
+    (result, { amount, currency: amountCurrency }) => {
+      const convertedAmount = convertAmount(amount, amountCurrency, currency, rates);
+      if (convertedAmount === null) {
+        if (!result.missingRates.includes(amountCurrency)) {
+          result.missingRates.push(amountCurrency);
+        }
+        return result;
+      }
+      result.total += convertedAmount;
+      result.converted = result.converted || amountCurrency !== currency;
+      return result;
+    },
+    { total: 0, converted: false, missingRates: [] }
+  );
+};
+
+// Exchange rates are kept on the device only, merged over the defaults so
+// currencies added later get a rate too
+export const loadExchangeRates = async (): Promise<ExchangeRates> => {
+  try {
+    const storedRates = await AsyncStorage.getItem(EXCHANGE_RATES_STORAGE_KEY);
+    return {
+      ...DEFAULT_EXCHANGE_RATES,
+      ...(storedRates ? (JSON.parse(storedRates) as ExchangeRates) : {}),
+    };
+  } catch (error) {
+    console.error('Error loading exchange rates:', error);
+    return DEFAULT_EXCHANGE_RATES;
+  }
+};
+
+export const saveExchangeRates = async (rates: ExchangeRates): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(EXCHANGE_RATES_STORAGE_KEY, JSON.stringify(rates));
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to save exchange rates');
+  }
+};
+
+export const resetExchangeRates = async (): Promise<ExchangeRates> => {
+  try {
+    await AsyncStorage.removeItem(EXCHANGE_RATES_STORAGE_KEY);
+    return DEFAULT_EXCHANGE_RATES;
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to reset exchange rates');
+  }
+};
@@ -0,0 +1,26 @@
+// Deleted events and wishlists are kept for a few days so they can be restored
+// Pure functions only - purging is handled in lib/firestore/purge.ts
+
+// Must match undoWindowEnd in firestore.rules, which enforces the window for
+// restores and purges. Change both together.
+export const UNDO_WINDOW_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// When something deleted at the given time is purged for good. Counted in
+// whole 24 hour days like the rules, not calendar days.
+export const getPurgeDate = (deletedAt: Date): Date =>
+  new Date(deletedAt.getTime() + UNDO_WINDOW_DAYS * DAY_MS);
+
+export const isPurgeDue = (deletedAt: Date, now: Date = new Date()): boolean =>
+  now > getPurgeDate(deletedAt);
+
+// e.g. "2 days left to restore"
+export const describeUndoWindow = (deletedAt: Date, now: Date = new Date()): string => {
+  const msLeft = getPurgeDate(deletedAt).getTime() - now.getTime();
+  const daysLeft = Math.max(Math.ceil(msLeft / DAY_MS), 0);
+  if (daysLeft <= 1) {
+    return 'Can be restored until tomorrow';
+  }
+  return `${daysLeft} days left to restore`;
+};
@@ -5,6 +5,7 @@ import { initializeApp } from "firebase/app";
 // @ts-ignore
 import { Auth, connectAuthEmulator, getAuth, getReactNativePersistence, initializeAuth } from "firebase/auth";
 import { connectFirestoreEmulator, getFirestore } from "firebase/firestore";
+import { connectStorageEmulator, getStorage } from "firebase/storage";
 import { Platform } from "react-native";
 
 // Check if we should use Firebase emulators
@@ -64,17 +65,20 @@ if (Platform.OS === "web") {
 
 export { auth };
 export const db = getFirestore(app);
+export const storage = getStorage(app);
 
 // Connect to emulators if enabled
 if (USE_EMULATOR) {
   // Determine the emulator host based on platform
   let authHost = "localhost";
   let firestoreHost = "localhost";
+  let storageHost = "localhost";
 
   if (Platform.OS === "android") {
     // Android emulator uses 10.0.2.2 to access host machine's localhost
     authHost = "10.0.2.2";
     firestoreHost = "10.0.2.2";
+    storageHost = "10.0.2.2";
   }
   // iOS simulator and web use localhost directly
 
@@ -103,6 +107,17 @@ if (USE_EMULATOR) {
       console.warn("Failed to connect Firestore emulator:", error);
     }
   }
+
+  try {
+    // Connect Storage emulator (port 9199)
+    connectStorageEmulator(storage, storageHost, 9199);
+    console.log(`Connected to Storage emulator at ${storageHost}:9199`);
+  } catch (error: any) {
+    // Emulator might already be connected
+    if (!error.message?.includes("already")) {
+      console.warn("Failed to connect Storage emulator:", error);
+    }
+  }
 }
 
 export default app;
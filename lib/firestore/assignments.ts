@@ -1,37 +1,60 @@
 import {
+  arrayRemove,
+  arrayUnion,
   collection,
   doc,
-  addDoc,
   getDoc,
   getDocs,
   updateDoc,
-  deleteDoc,
+  deleteField,
   query,
   where,
   Timestamp,
   serverTimestamp,
   onSnapshot,
   Unsubscribe,
+  writeBatch,
 } from 'firebase/firestore';
+import { getUserData } from '../auth';
 import { db } from '../firebase';
+import { DrawExclusion, drawNames, generateDrawSeed } from '../secretSanta';
+import { getHouseholdId } from './dependents';
+import { canContributeToEvent, canSeeAllAssignments, Event } from './events';
+import { getWishlistRecipientId, isWishlistRecipient, Wishlist } from './wishlists';
 
 export interface Assignment {
   id: string;
   eventId: string;
-  wishlistId: string;
+  wishlistId: string | null; // null when a drawn recipient has no wishlist yet
   assignedTo: string; // userId of the buyer
+  // Managed profile the buyer shops for, assignedTo is then its manager
+  onBehalfOf?: string;
   assignedBy: string; // userId of the event organizer
   createdAt: Timestamp;
   status: 'pending' | 'purchased';
+  recipientId?: string; // userId of the person receiving the gift, unset for recipients without an account
+  source?: 'manual' | 'draw';
 }
 
+export interface DrawAssignmentsOptions {
+  seed?: string;
+  exclusions?: DrawExclusion[];
+  // Manual assignments block a draw unless the organizer confirmed replacing them
+  replaceManualAssignments?: boolean;
+}
+
+// Managed profiles can be picked as the buyer, their manager then buys on
+// their behalf
 export const createAssignment = async (
   eventId: string,
   wishlistId: string,
-  assignedTo: string,
+  giverId: string,
   assignedBy: string
 ): Promise<string> => {
   try {
+    const managedBy = (await getUserData(giverId))?.managedBy;
+    const assignedTo = managedBy ?? giverId;
+
     // Check if assignment already exists
     const existingQuery = query(
       collection(db, 'assignments'),
@@ -44,6 +67,16 @@ export const createAssignment = async (
       throw new Error('Assignment already exists');
     }
 
+    const wishlistSnap = await getDoc(doc(db, 'wishlists', wishlistId));
+    if (!wishlistSnap.exists()) {
+      throw new Error('Wishlist not found');
+    }
+    const wishlist = wishlistSnap.data() as Wishlist;
+    const recipientId = getWishlistRecipientId(wishlist);
+    if (isWishlistRecipient(wishlist, assignedTo)) {
+      throw new Error('Nobody can be assigned the wishlist that is for them or someone they manage');
+    }
+
     const assignmentData = {
       eventId,
       wishlistId,
@@ -51,9 +84,16 @@ export const createAssignment = async (
       assignedBy,
       createdAt: serverTimestamp(),
       status: 'pending' as const,
+      source: 'manual' as const,
+      ...(recipientId && { recipientId }),
+      ...(managedBy && { onBehalfOf: giverId }),
     };
 
-    const docRef = await addDoc(collection(db, 'assignments'), assignmentData);
+    const docRef = doc(collection(db, 'assignments'));
+    const batch = writeBatch(db);
+    batch.set(docRef, assignmentData);
+    batch.update(doc(db, 'events', eventId), { manualAssignmentIds: arrayUnion(docRef.id) });
+    await batch.commit();
     return docRef.id;
   } catch (error: any) {
     throw new Error(error.message || 'Failed to create assignment');
@@ -114,16 +154,46 @@ export const getAssignmentsForUser = async (
   }
 };
 
-export const getAssignmentForWishlist = async (
-  wishlistId: string
-): Promise<Assignment | null> => {
+export const getAssignmentsForEventAndUser = async (
+  eventId: string,
+  userId: string
+): Promise<Assignment[]> => {
   try {
     const q = query(
       collection(db, 'assignments'),
-      where('wishlistId', '==', wishlistId)
+      where('eventId', '==', eventId),
+      where('assignedTo', '==', userId)
     );
     const querySnapshot = await getDocs(q);
 
+    return querySnapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as Assignment[];
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to get assignments');
+  }
+};
+
+// Pass assignedTo to only look at the user's own assignment, which is required
+// for events with blind assignments
+export const getAssignmentForWishlist = async (
+  wishlistId: string,
+  assignedTo?: string
+): Promise<Assignment | null> => {
+  try {
+    const q = assignedTo
+      ? query(
+          collection(db, 'assignments'),
+          where('wishlistId', '==', wishlistId),
+          where('assignedTo', '==', assignedTo)
+        )
+      : query(
+          collection(db, 'assignments'),
+          where('wishlistId', '==', wishlistId)
+        );
+    const querySnapshot = await getDocs(q);
+
     if (!querySnapshot.empty) {
       const doc = querySnapshot.docs[0];
       return { id: doc.id, ...doc.data() } as Assignment;
@@ -147,10 +217,14 @@ export const updateAssignmentStatus = async (
 };
 
 export const deleteAssignment = async (
+  eventId: string,
   assignmentId: string
 ): Promise<void> => {
   try {
-    await deleteDoc(doc(db, 'assignments', assignmentId));
+    const batch = writeBatch(db);
+    batch.delete(doc(db, 'assignments', assignmentId));
+    batch.update(doc(db, 'events', eventId), { manualAssignmentIds: arrayRemove(assignmentId) });
+    await batch.commit();
   } catch (error: any) {
     throw new Error(error.message || 'Failed to delete assignment');
   }
@@ -165,12 +239,198 @@ export const subscribeToAssignmentsForEvent = (
     where('eventId', '==', eventId)
   );
 
-  return onSnapshot(q, (querySnapshot) => {
-    const assignments = querySnapshot.docs.map((doc) => ({
+  return onSnapshot(
+    q,
+    (querySnapshot) => {
+      const assignments = querySnapshot.docs.map((doc) => ({
+        id: doc.id,
+        ...doc.data(),
+      })) as Assignment[];
+      callback(assignments);
+    },
+    (error) => {
+      console.error('Error subscribing to assignments:', error);
+      callback([]);
+    }
+  );
+};
+
+// Seed of the event's last draw, stored in drawSeeds/{eventId}. Only
+// organizers who can see every assignment may read it, see firestore.rules.
+const drawSeedRef = (eventId: string) => doc(db, 'drawSeeds', eventId);
+
+export const getLastDrawSeed = async (eventId: string): Promise<string | null> => {
+  try {
+    const seedSnap = await getDoc(drawSeedRef(eventId));
+    return seedSnap.exists() ? (seedSnap.data().seed as string) : null;
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to load draw seed');
+  }
+};
+
+// Ids of the event's manual assignments: the ones recorded on the event, and
+// readable ones from before they were recorded there. The event's list may
+// still hold assignments that were deleted along with a member who left.
+export const getManualAssignmentIds = (
+  event: Pick<Event, 'manualAssignmentIds'>,
+  assignments: Assignment[]
+): string[] =>
+  Array.from(
+    new Set([
+      ...(event.manualAssignmentIds || []),
+      ...assignments.filter((assignment) => assignment.source !== 'draw').map((assignment) => assignment.id),
+    ])
+  );
+
+// Draw names for every event member and replace the event's assignments
+// with the result in a single batch. Returns the seed used, so the same draw
+// can be reproduced later. Blind organizers must not be shown it.
+export const drawAssignmentsForEvent = async (
+  eventId: string,
+  drawnBy: string,
+  options: DrawAssignmentsOptions = {}
+): Promise<string> => {
+  try {
+    const eventRef = doc(db, 'events', eventId);
+    const eventSnap = await getDoc(eventRef);
+
+    if (!eventSnap.exists()) {
+      throw new Error('Event not found');
+    }
+
+    const eventData = { id: eventSnap.id, ...eventSnap.data() } as Event;
+    // A blind organizer can only read their own assignments
+    const existingAssignments = canSeeAllAssignments(eventData, drawnBy)
+      ? await getAssignmentsForEvent(eventId)
+      : await getAssignmentsForEventAndUser(eventId, drawnBy);
+    const manualAssignmentIds = getManualAssignmentIds(eventData, existingAssignments);
+
+    if (manualAssignmentIds.length > 0 && !options.replaceManualAssignments) {
+      throw new Error('Manual assignments already exist for this event');
+    }
+
+    const seed = options.seed || generateDrawSeed();
+    const exclusions = options.exclusions ?? eventData.drawExclusions ?? [];
+
+    // View-only members don't buy gifts, so they aren't drawn. Members of the
+    // same household (a manager and the profiles they manage) never draw each
+    // other. These exclusions are implied, so they aren't saved with the
+    // organizer's.
+    const memberIds = (eventData.members || []).filter((memberId) =>
+      canContributeToEvent(eventData, memberId)
+    );
+    const managers = new Map(
+      await Promise.all(
+        memberIds.map(async (memberId) => [memberId, (await getUserData(memberId))?.managedBy] as const)
+      )
+    );
+    const householdOf = (memberId: string) =>
+      getHouseholdId(memberId, { managedBy: managers.get(memberId) });
+    const householdExclusions: DrawExclusion[] = [];
+    memberIds.forEach((memberA, index) => {
+      memberIds.slice(index + 1).forEach((memberB) => {
+        if (householdOf(memberA) === householdOf(memberB)) {
+          householdExclusions.push({ memberA, memberB });
+        }
+      });
+    });
+    const pairs = drawNames(memberIds, { seed, exclusions: [...exclusions, ...householdExclusions] });
+
+    // Give each receiver the wishlist that's for them, if there is one in this
+    // event. That isn't necessarily a list they created themselves. Deleted
+    // wishlists don't count.
+    const wishlistsQuery = query(
+      collection(db, 'wishlists'),
+      where('eventId', '==', eventId)
+    );
+    const wishlistsSnapshot = await getDocs(wishlistsQuery);
+    const wishlists = (wishlistsSnapshot.docs.map((doc) => ({
       id: doc.id,
       ...doc.data(),
-    })) as Assignment[];
-    callback(assignments);
-  });
+    })) as Wishlist[]).filter((wishlist) => !wishlist.deletedAt);
+
+    const batch = writeBatch(db);
+
+    // Previously drawn and manual assignments are deleted by id, even if not readable
+    const assignmentIdsToDelete = new Set([
+      ...existingAssignments.map((assignment) => assignment.id),
+      ...(eventData.lastDraw?.assignmentIds || []),
+      ...manualAssignmentIds,
+    ]);
+    assignmentIdsToDelete.forEach((assignmentId) => {
+      batch.delete(doc(db, 'assignments', assignmentId));
+    });
+
+    const assignmentIds: string[] = [];
+    pairs.forEach((pair) => {
+      const receiverWishlist = wishlists.find(
+        (wishlist) => getWishlistRecipientId(wishlist) === pair.receiver
+      );
+      // Managed profiles draw names too, their manager does the shopping
+      const managedBy = managers.get(pair.giver);
+      const assignmentRef = doc(collection(db, 'assignments'));
+      assignmentIds.push(assignmentRef.id);
+      batch.set(assignmentRef, {
+        eventId,
+        wishlistId: receiverWishlist?.id ?? null,
+        assignedTo: managedBy ?? pair.giver,
+        assignedBy: drawnBy,
+        recipientId: pair.receiver,
+        ...(managedBy && { onBehalfOf: pair.giver }),
+        createdAt: serverTimestamp(),
+        status: 'pending' as const,
+        source: 'draw' as const,
+      });
+    });
+
+    // The seed reproduces every pair, so it is kept out of the event and the
+    // assignments, where members could read it
+    batch.set(drawSeedRef(eventId), {
+      seed,
+      drawnBy,
+      drawnAt: serverTimestamp(),
+    });
+    batch.update(eventRef, {
+      drawExclusions: exclusions,
+      manualAssignmentIds: deleteField(),
+      lastDraw: {
+        drawnBy,
+        drawnAt: Timestamp.now(),
+        assignmentIds,
+      },
+    });
+
+    await batch.commit();
+    return seed;
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to draw names');
+  }
+};
+
+export const subscribeToAssignmentsForEventAndUser = (
+  eventId: string,
+  userId: string,
+  callback: (assignments: Assignment[]) => void
+): Unsubscribe => {
+  const q = query(
+    collection(db, 'assignments'),
+    where('eventId', '==', eventId),
+    where('assignedTo', '==', userId)
+  );
+
+  return onSnapshot(
+    q,
+    (querySnapshot) => {
+      const assignments = querySnapshot.docs.map((doc) => ({
+        id: doc.id,
+        ...doc.data(),
+      })) as Assignment[];
+      callback(assignments);
+    },
+    (error) => {
+      console.error('Error subscribing to user assignments:', error);
+      callback([]);
+    }
+  );
 };
 
@@ -0,0 +1,141 @@
+import {
+  deleteDoc,
+  doc,
+  onSnapshot,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  Unsubscribe,
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import {
+  canSeeClaims,
+  getClaimsForWishlist,
+  getPledgesForWishlist,
+  getWishlistsForEvent,
+} from './wishlists';
+
+// A giver's personal spending budget for an event. Budgets are private, so
+// they live under users/{userId}/budgets/{eventId} where only the user can
+// read them.
+export interface Budget {
+  eventId: string;
+  amount: number;
+  currency: string;
+  updatedAt: Timestamp;
+}
+
+// Money the user has committed in an event: items they purchased and
+// pledges towards group gifts
+export interface SpendingEntry {
+  wishlistId: string;
+  itemId: string;
+  amount: number;
+  currency?: string; // the item's currency, undefined for the event currency
+}
+
+const budgetRef = (userId: string, eventId: string) =>
+  doc(db, 'users', userId, 'budgets', eventId);
+
+export const setBudget = async (
+  userId: string,
+  eventId: string,
+  amount: number,
+  currency: string
+): Promise<void> => {
+  try {
+    await setDoc(budgetRef(userId, eventId), {
+      eventId,
+      amount,
+      currency,
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to set budget');
+  }
+};
+
+export const clearBudget = async (
+  userId: string,
+  eventId: string
+): Promise<void> => {
+  try {
+    await deleteDoc(budgetRef(userId, eventId));
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to clear budget');
+  }
+};
+
+export const subscribeToBudget = (
+  userId: string,
+  eventId: string,
+  callback: (budget: Budget | null) => void
+): Unsubscribe => {
+  return onSnapshot(
+    budgetRef(userId, eventId),
+    (docSnap) => {
+      callback(docSnap.exists() ? (docSnap.data() as Budget) : null);
+    },
+    (error) => {
+      console.error('Error subscribing to budget:', error);
+      callback(null);
+    }
+  );
+};
+
+// Everything the user has spent in the event. Items without a price don't
+// count. Wishlists whose claims are hidden from the user (their own, in
+// surprise mode) can't contain their purchases and are skipped.
+export const getSpendingForEvent = async (
+  eventId: string,
+  userId: string
+): Promise<SpendingEntry[]> => {
+  try {
+    const wishlists = await getWishlistsForEvent(eventId);
+    const entriesByWishlist = await Promise.all(
+      wishlists
+        .filter((wishlist) => canSeeClaims(wishlist, userId))
+        .map(async (wishlist) => {
+          const [claims, pledges] = await Promise.all([
+            getClaimsForWishlist(wishlist.id),
+            getPledgesForWishlist(wishlist.id),
+          ]);
+
+          const entries: SpendingEntry[] = [];
+          for (const item of wishlist.items) {
+            if (!item.price) continue;
+            const currency = item.currency;
+
+            if (item.groupGift) {
+              pledges
+                .filter((pledge) => pledge.itemId === item.id && pledge.pledgedBy === userId)
+                .forEach((pledge) => {
+                  entries.push({ wishlistId: wishlist.id, itemId: item.id, amount: pledge.amount, currency });
+                });
+              continue;
+            }
+
+            claims
+              .filter(
+                (claim) =>
+                  claim.itemId === item.id &&
+                  claim.claimedBy === userId &&
+                  claim.status !== 'reserved'
+              )
+              .forEach((claim) => {
+                entries.push({
+                  wishlistId: wishlist.id,
+                  itemId: item.id,
+                  amount: item.price! * claim.quantity,
+                  currency,
+                });
+              });
+          }
+          return entries;
+        })
+    );
+    return entriesByWishlist.flat();
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to get spending');
+  }
+};
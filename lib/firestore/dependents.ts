@@ -0,0 +1,189 @@
+import {
+  arrayRemove,
+  arrayUnion,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  query,
+  setDoc,
+  Timestamp,
+  Unsubscribe,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import { UserData } from '../auth';
+import { db } from '../firebase';
+import { AvatarImage, deleteAvatarImage } from '../images';
+
+// Managed profiles for people without their own account (e.g. kids).
+// They are stored as regular users/{userId} documents with managedBy set, so
+// they can be event members and wishlist recipients like anyone else. The
+// managing account acts on their behalf: it buys the gifts a managed profile
+// draws, and is treated as a recipient of the profile's wishlists so surprises
+// aren't spoiled.
+export interface Dependent {
+  id: string;
+  displayName: string;
+  managedBy: string; // userId of the managing account
+  createdAt: Date;
+  birthday?: Timestamp;
+  avatarUrl?: string;
+  avatarPath?: string; // Storage path of the avatar, see lib/images.ts
+}
+
+// Members sharing a household never draw each other and don't see claims on
+// each other's wishlists. A managed profile belongs to its manager's household.
+export const getHouseholdId = (
+  userId: string,
+  userData: Pick<UserData, 'managedBy'> | null | undefined
+): string => userData?.managedBy ?? userId;
+
+export const createDependent = async (
+  managedBy: string,
+  displayName: string,
+  birthday?: Date
+): Promise<string> => {
+  try {
+    const dependentRef = doc(collection(db, 'users'));
+    await setDoc(dependentRef, {
+      // Keeps the document in the shape of UserData, managed profiles have no email
+      email: '',
+      displayName,
+      managedBy,
+      createdAt: new Date(),
+      ...(birthday && { birthday: Timestamp.fromDate(birthday) }),
+    });
+    return dependentRef.id;
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to create profile');
+  }
+};
+
+export const updateDependent = async (
+  dependentId: string,
+  updates: Partial<{
+    displayName: string;
+    birthday: Date | null; // null removes the birthday
+  }>
+): Promise<void> => {
+  try {
+    const updateData: Record<string, any> = {};
+    if (updates.displayName) updateData.displayName = updates.displayName;
+    if (updates.birthday !== undefined) {
+      updateData.birthday = updates.birthday
+        ? Timestamp.fromDate(updates.birthday)
+        : deleteField();
+    }
+    await updateDoc(doc(db, 'users', dependentId), updateData);
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to update profile');
+  }
+};
+
+// Replace (or with null, remove) the profile's avatar. The previous upload
+// is deleted from storage.
+export const setDependentAvatar = async (
+  dependentId: string,
+  avatar: AvatarImage | null
+): Promise<void> => {
+  try {
+    const dependentRef = doc(db, 'users', dependentId);
+    const previousPath = (await getDoc(dependentRef)).data()?.avatarPath as string | undefined;
+
+    await updateDoc(dependentRef, {
+      avatarUrl: avatar?.avatarUrl ?? deleteField(),
+      avatarPath: avatar?.avatarPath ?? deleteField(),
+    });
+
+    if (previousPath && previousPath !== avatar?.avatarPath) {
+      await deleteAvatarImage(previousPath).catch((error) => {
+        console.error('Error deleting previous avatar:', error);
+      });
+    }
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to update avatar');
+  }
+};
+
+// Profiles can only be deleted once they are no longer a member of any event,
+// their wishlists and assignments would be left without a recipient otherwise
+export const deleteDependent = async (dependentId: string): Promise<void> => {
+  try {
+    const dependentRef = doc(db, 'users', dependentId);
+    const dependentData = (await getDoc(dependentRef)).data();
+
+    // Users can only query events they're a member of, and profiles are only
+    // added to events their manager belongs to
+    const eventsSnapshot = await getDocs(
+      query(collection(db, 'events'), where('members', 'array-contains', dependentData?.managedBy))
+    );
+    if (eventsSnapshot.docs.some((eventDoc) => eventDoc.data().members.includes(dependentId))) {
+      throw new Error('Remove this profile from its events before deleting it');
+    }
+
+    const avatarPath = dependentData?.avatarPath as string | undefined;
+    if (avatarPath) {
+      await deleteAvatarImage(avatarPath).catch((error) => {
+        console.error('Error deleting avatar:', error);
+      });
+    }
+    await deleteDoc(dependentRef);
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to delete profile');
+  }
+};
+
+// A member can add the profiles they manage to an event they belong to
+export const addDependentToEvent = async (
+  eventId: string,
+  dependentId: string
+): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'events', eventId), {
+      members: arrayUnion(dependentId),
+    });
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to add profile to event');
+  }
+};
+
+export const removeDependentFromEvent = async (
+  eventId: string,
+  dependentId: string
+): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'events', eventId), {
+      members: arrayRemove(dependentId),
+    });
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to remove profile from event');
+  }
+};
+
+export const subscribeToDependents = (
+  managedBy: string,
+  callback: (dependents: Dependent[]) => void
+): Unsubscribe => {
+  const q = query(
+    collection(db, 'users'),
+    where('managedBy', '==', managedBy)
+  );
+
+  return onSnapshot(
+    q,
+    (querySnapshot) => {
+      const dependents = querySnapshot.docs
+        .map((doc) => ({ id: doc.id, ...doc.data() }) as Dependent)
+        .sort((a, b) => a.displayName.localeCompare(b.displayName));
+      callback(dependents);
+    },
+    (error) => {
+      console.error('Error subscribing to managed profiles:', error);
+      callback([]);
+    }
+  );
+};
@@ -1,7 +1,7 @@
 import {
   addDoc,
   collection,
-  deleteDoc,
+  deleteField,
   doc,
   getDoc,
   getDocs,
@@ -14,27 +14,143 @@ import {
   where,
 } from "firebase/firestore";
 import { getUserData } from "../auth";
+import { DEFAULT_CURRENCY } from "../currency";
+import { isPurgeDue } from "../deletion";
 import { db } from "../firebase";
+import { EventRecurrence } from "../recurrence";
+import { DrawExclusion } from "../secretSanta";
+import { deleteInvitation, LegacyInvitation } from "./invitations";
 
 export interface Event {
   id: string;
   name: string;
+  // The owner of the event, see getEventRole. Changes when ownership is
+  // transferred.
   createdBy: string;
   createdAt: Timestamp;
   eventDate?: Timestamp;
   members: string[];
-  invitations: {
-    email: string;
-    status: "pending" | "accepted" | "rejected";
-    invitedBy: string;
-    invitedAt: Timestamp;
-  }[];
+  // Roles of members other than the owner, members without an entry have the
+  // "member" role
+  roles?: Record<string, Exclude<EventRole, "owner">>;
+  // Invitations are stored in the invitations collection (see
+  // lib/firestore/invitations.ts), older events still have them here until
+  // the organizer opens the event
+  invitations?: LegacyInvitation[];
+  // Secret Santa: pairs of members who must not draw each other (e.g. couples)
+  drawExclusions?: DrawExclusion[];
+  // The seed of the last draw is stored separately, see getLastDrawSeed in
+  // lib/firestore/assignments.ts
+  lastDraw?: {
+    drawnBy: string;
+    drawnAt: Timestamp;
+    // Lets a blind organizer replace a draw they are not allowed to read
+    assignmentIds?: string[];
+  };
+  // Ids of the assignments organizers made by hand, so a blind organizer's
+  // draw knows about the ones they can't read (see getManualAssignmentIds)
+  manualAssignmentIds?: string[];
+  // "blind": members only see the assignments where they are the buyer
+  assignmentVisibility?: AssignmentVisibility;
+  // In blind mode, whether the organizer is blind as well
+  organizerBlind?: boolean;
+  // Default currency for item prices and the currency totals are shown in
+  // (ISO 4217 code, see lib/currency.ts)
+  currency?: string;
+  // Spending limit per gift set by the organizer, in the event currency
+  giftLimit?: number;
+  // Recurring events are rolled over to their next occurrence (see
+  // lib/firestore/rollover.ts), the occurrences link to each other
+  recurrence?: EventRecurrence;
+  previousOccurrenceId?: string;
+  nextOccurrenceId?: string;
+  // Set when the organizer archives the event before its date has passed,
+  // see isEventArchived
+  archivedAt?: Timestamp;
+  // Set when the organizer reveals who gave what to whom. Recipients can then
+  // see the purchases on their wishlists and blind assignments are opened up.
+  revealedAt?: Timestamp;
+  // Set when the owner deletes the event. It can be restored until the undo
+  // window is over, then it is purged (see lib/firestore/purge.ts).
+  deletedAt?: Timestamp;
 }
 
+export type AssignmentVisibility = "open" | "blind";
+
+// owner: everything, including deleting the event and changing roles
+// co-organizer: manages the event, its members and its draw
+// member: wishlists, claims and pledges
+// viewer: only looks at the event and its wishlists
+export type EventRole = "owner" | "co-organizer" | "member" | "viewer";
+
+export const EVENT_ROLE_LABELS: Record<EventRole, string> = {
+  owner: "Owner",
+  "co-organizer": "Co-organizer",
+  member: "Member",
+  viewer: "View only",
+};
+
+// Roles the owner can give to other members
+export const ASSIGNABLE_EVENT_ROLES: Exclude<EventRole, "owner">[] = [
+  "co-organizer",
+  "member",
+  "viewer",
+];
+
+// Mirrors eventRole in firestore.rules. Null for users outside the event.
+export const getEventRole = (event: Event, userId: string): EventRole | null => {
+  if (!event.members?.includes(userId)) {
+    return null;
+  }
+  if (event.createdBy === userId) {
+    return "owner";
+  }
+  return event.roles?.[userId] ?? "member";
+};
+
+// Owners and co-organizers manage the event: its settings, invitations,
+// members and draw
+export const isEventOrganizer = (event: Event, userId: string): boolean => {
+  const role = getEventRole(event, userId);
+  return role === "owner" || role === "co-organizer";
+};
+
+// Everyone but viewers can create wishlists, edit items and buy gifts
+export const canContributeToEvent = (event: Event, userId: string): boolean => {
+  const role = getEventRole(event, userId);
+  return role !== null && role !== "viewer";
+};
+
+// Whether the given user may see every assignment of the event.
+// Mirrors the assignments rule in firestore.rules.
+export const canSeeAllAssignments = (event: Event, userId: string): boolean => {
+  if (event.assignmentVisibility !== "blind" || event.revealedAt) {
+    return true;
+  }
+  return isEventOrganizer(event, userId) && !event.organizerBlind;
+};
+
+// Events are archived the day after their date, or earlier by the organizer.
+// Archived events are read-only and kept as history, enforced by isArchived
+// in firestore.rules.
+export const isEventArchived = (event: Event, now: Date = new Date()): boolean => {
+  if (event.archivedAt) {
+    return true;
+  }
+  if (!event.eventDate) {
+    return false;
+  }
+  const dayAfter = event.eventDate.toDate();
+  dayAfter.setDate(dayAfter.getDate() + 1);
+  return now >= dayAfter;
+};
+
 export const createEvent = async (
   name: string,
   createdBy: string,
-  eventDate?: Date
+  eventDate?: Date,
+  currency: string = DEFAULT_CURRENCY,
+  recurrence?: EventRecurrence
 ): Promise<string> => {
   try {
     const eventData = {
@@ -43,7 +159,8 @@ export const createEvent = async (
       createdAt: serverTimestamp(),
       eventDate: eventDate ? Timestamp.fromDate(eventDate) : null,
       members: [createdBy],
-      invitations: [],
+      currency,
+      ...(recurrence && { recurrence }),
     };
 
     const docRef = await addDoc(collection(db, "events"), eventData);
@@ -86,12 +203,28 @@ export const getEventsForUser = async (userId: string): Promise<Event[]> => {
 
 export const updateEvent = async (
   eventId: string,
+  userId: string,
   updates: Partial<{
     name: string;
     eventDate: Date;
+    assignmentVisibility: AssignmentVisibility;
+    organizerBlind: boolean;
+    currency: string;
+    giftLimit: number | null; // null removes the limit
+    recurrence: EventRecurrence | null; // null stops the event from repeating
+    archived: boolean;
+    revealed: boolean;
   }>
 ): Promise<void> => {
   try {
+    const event = await getEvent(eventId);
+    if (!event) {
+      throw new Error("Event not found");
+    }
+    if (!isEventOrganizer(event, userId)) {
+      throw new Error("Only organizers can change the event");
+    }
+
     const docRef = doc(db, "events", eventId);
     const updateData: any = {};
 
@@ -99,6 +232,25 @@ export const updateEvent = async (
     if (updates.eventDate) {
       updateData.eventDate = Timestamp.fromDate(updates.eventDate);
     }
+    if (updates.assignmentVisibility) {
+      updateData.assignmentVisibility = updates.assignmentVisibility;
+    }
+    if (updates.organizerBlind !== undefined) {
+      updateData.organizerBlind = updates.organizerBlind;
+    }
+    if (updates.currency) updateData.currency = updates.currency;
+    if (updates.giftLimit !== undefined) {
+      updateData.giftLimit = updates.giftLimit ?? deleteField();
+    }
+    if (updates.recurrence !== undefined) {
+      updateData.recurrence = updates.recurrence ?? deleteField();
+    }
+    if (updates.archived !== undefined) {
+      updateData.archivedAt = updates.archived ? serverTimestamp() : deleteField();
+    }
+    if (updates.revealed !== undefined) {
+      updateData.revealedAt = updates.revealed ? serverTimestamp() : deleteField();
+    }
 
     await updateDoc(docRef, updateData);
   } catch (error: any) {
@@ -106,75 +258,44 @@ export const updateEvent = async (
   }
 };
 
-export const deleteEvent = async (eventId: string): Promise<void> => {
+// Deleted events are hidden from the events list and can be restored by the
+// owner for UNDO_WINDOW_DAYS (lib/deletion.ts)
+export const deleteEvent = async (eventId: string, userId: string): Promise<void> => {
   try {
-    await deleteDoc(doc(db, "events", eventId));
+    const event = await getEvent(eventId);
+    if (!event) {
+      throw new Error("Event not found");
+    }
+    if (getEventRole(event, userId) !== "owner") {
+      throw new Error("Only the owner can delete the event");
+    }
+
+    await updateDoc(doc(db, "events", eventId), {
+      deletedAt: serverTimestamp(),
+    });
   } catch (error: any) {
     throw new Error(error.message || "Failed to delete event");
   }
 };
 
-export const inviteUserToEvent = async (
-  eventId: string,
-  email: string,
-  invitedBy: string
-): Promise<void> => {
+export const restoreEvent = async (eventId: string, userId: string): Promise<void> => {
   try {
-    const eventRef = doc(db, "events", eventId);
-    const eventSnap = await getDoc(eventRef);
-
-    if (!eventSnap.exists()) {
+    const event = await getEvent(eventId);
+    if (!event) {
       throw new Error("Event not found");
     }
-
-    const eventData = eventSnap.data() as Event;
-    
-    // Check if user is already a member
-    // We need to check by email, so we'll need to look up the user
-    // For now, we'll check invitations and allow re-inviting if user is not a member
-    const existingInvitationIndex = eventData.invitations?.findIndex(
-      (inv) => inv.email === email
-    );
-
-    // If there's an existing invitation, check if user is still a member
-    // If user is not a member, we can update the invitation to pending
-    if (existingInvitationIndex !== undefined && existingInvitationIndex !== -1) {
-      const existingInvitation = eventData.invitations![existingInvitationIndex];
-      
-      // If invitation is pending, user is already invited
-      if (existingInvitation.status === "pending") {
-        throw new Error("User already invited");
-      }
-      
-      // If invitation was accepted but user is no longer a member, allow re-inviting
-      // Update the existing invitation to pending
-      const updatedInvitations = [...(eventData.invitations || [])];
-      updatedInvitations[existingInvitationIndex] = {
-        email,
-        status: "pending" as const,
-        invitedBy,
-        invitedAt: Timestamp.now(),
-      };
-      
-      await updateDoc(eventRef, {
-        invitations: updatedInvitations,
-      });
-      return;
+    if (getEventRole(event, userId) !== "owner") {
+      throw new Error("Only the owner can restore the event");
+    }
+    if (event.deletedAt && isPurgeDue(event.deletedAt.toDate())) {
+      throw new Error("This event can no longer be restored");
     }
 
-    // No existing invitation, create new one
-    const newInvitation = {
-      email,
-      status: "pending" as const,
-      invitedBy,
-      invitedAt: Timestamp.now(),
-    };
-
-    await updateDoc(eventRef, {
-      invitations: [...(eventData.invitations || []), newInvitation],
+    await updateDoc(doc(db, "events", eventId), {
+      deletedAt: deleteField(),
     });
   } catch (error: any) {
-    throw new Error(error.message || "Failed to invite user");
+    throw new Error(error.message || "Failed to restore event");
   }
 };
 
@@ -224,88 +345,12 @@ export const subscribeToEvent = (
   });
 };
 
-export interface EventWithInvitation extends Event {
-  invitationIndex: number;
-}
-
-export const getEventsWithPendingInvitations = async (
-  email: string
-): Promise<EventWithInvitation[]> => {
-  try {
-    // Get all events (we'll filter client-side since Firestore doesn't support
-    // querying nested array fields directly)
-    const querySnapshot = await getDocs(collection(db, "events"));
-    
-    const eventsWithInvitations: EventWithInvitation[] = [];
-    
-    querySnapshot.docs.forEach((doc) => {
-      const eventData = { id: doc.id, ...doc.data() } as Event;
-      
-      if (eventData.invitations) {
-        const invitationIndex = eventData.invitations.findIndex(
-          (inv) => inv.email === email && inv.status === "pending"
-        );
-        
-        if (invitationIndex !== -1) {
-          eventsWithInvitations.push({
-            ...eventData,
-            invitationIndex,
-          });
-        }
-      }
-    });
-    
-    return eventsWithInvitations;
-  } catch (error: any) {
-    throw new Error(error.message || "Failed to get events with invitations");
-  }
-};
-
-export const subscribeToEventsWithPendingInvitations = (
-  email: string,
-  callback: (events: EventWithInvitation[]) => void,
-  onError?: (error: Error) => void
-): Unsubscribe => {
-  // Subscribe to all events and filter client-side
-  return onSnapshot(
-    collection(db, "events"),
-    (querySnapshot) => {
-      const eventsWithInvitations: EventWithInvitation[] = [];
-      
-      querySnapshot.docs.forEach((doc) => {
-        const eventData = { id: doc.id, ...doc.data() } as Event;
-        
-        if (eventData.invitations) {
-          const invitationIndex = eventData.invitations.findIndex(
-            (inv) => inv.email === email && inv.status === "pending"
-          );
-          
-          if (invitationIndex !== -1) {
-            eventsWithInvitations.push({
-              ...eventData,
-              invitationIndex,
-            });
-          }
-        }
-      });
-      
-      callback(eventsWithInvitations);
-    },
-    (error) => {
-      console.error("Error subscribing to events with invitations:", error);
-      if (onError) {
-        onError(error as Error);
-      } else {
-        callback([]);
-      }
-    }
-  );
-};
-
-export const acceptInvitation = async (
+// Owners can remove anyone but themselves, co-organizers only members and
+// viewers
+export const removeMemberFromEvent = async (
   eventId: string,
-  userId: string,
-  email: string
+  memberId: string,
+  userId: string
 ): Promise<void> => {
   try {
     const eventRef = doc(db, "events", eventId);
@@ -316,133 +361,105 @@ export const acceptInvitation = async (
     }
 
     const eventData = eventSnap.data() as Event;
-    
-    // Find the invitation
-    const invitationIndex = eventData.invitations?.findIndex(
-      (inv) => inv.email === email && inv.status === "pending"
-    );
 
-    if (invitationIndex === undefined || invitationIndex === -1) {
-      throw new Error("Invitation not found or already processed");
+    // Prevent removing the owner
+    if (eventData.createdBy === memberId) {
+      throw new Error("Cannot remove the event owner");
     }
 
-    // Check if user is already a member
-    if (eventData.members?.includes(userId)) {
-      throw new Error("User is already a member of this event");
+    // Check if member exists
+    if (!eventData.members?.includes(memberId)) {
+      throw new Error("User is not a member of this event");
     }
 
-    // Update invitation status and add user to members
-    const updatedInvitations = [...(eventData.invitations || [])];
-    updatedInvitations[invitationIndex] = {
-      ...updatedInvitations[invitationIndex],
-      status: "accepted" as const,
-    };
+    const role = getEventRole(eventData, userId);
+    const memberRole = getEventRole(eventData, memberId);
+    if (role !== "owner" && (role !== "co-organizer" || memberRole === "co-organizer")) {
+      throw new Error("You are not allowed to remove this member");
+    }
 
-    const updatedMembers = [...(eventData.members || []), userId];
+    // Remove member from members array, along with their role
+    const updatedMembers = eventData.members.filter((id) => id !== memberId);
 
-    console.log("Accepting invitation:", { eventId, userId, email });
     await updateDoc(eventRef, {
-      invitations: updatedInvitations,
       members: updatedMembers,
+      ...(eventData.roles?.[memberId] && { [`roles.${memberId}`]: deleteField() }),
     });
-    console.log("Invitation accepted successfully");
-  } catch (error: any) {
-    console.error("Error accepting invitation:", error);
-    // Provide more specific error messages
-    if (error.code === "permission-denied") {
-      throw new Error("Permission denied. Please check Firestore security rules.");
+
+    // Also clean up the accepted invitation of this user
+    try {
+      const userData = await getUserData(memberId);
+      if (userData?.email) {
+        await deleteInvitation(eventId, userData.email);
+      }
+    } catch (error) {
+      // If we can't clean up the invitation, the member is still removed.
+      // inviteUserToEvent allows re-inviting anyway.
+      console.warn("Could not clean up invitation:", error);
     }
-    throw new Error(error.message || "Failed to accept invitation");
+  } catch (error: any) {
+    throw new Error(error.message || "Failed to remove member");
   }
 };
 
-export const rejectInvitation = async (
+// Only the owner changes roles. Members who lose the co-organizer role keep
+// their assignments and claims.
+export const setMemberRole = async (
   eventId: string,
-  email: string
+  memberId: string,
+  role: Exclude<EventRole, "owner">,
+  userId: string
 ): Promise<void> => {
   try {
-    const eventRef = doc(db, "events", eventId);
-    const eventSnap = await getDoc(eventRef);
-
-    if (!eventSnap.exists()) {
+    const event = await getEvent(eventId);
+    if (!event) {
       throw new Error("Event not found");
     }
-
-    const eventData = eventSnap.data() as Event;
-    
-    // Find the invitation
-    const invitationIndex = eventData.invitations?.findIndex(
-      (inv) => inv.email === email && inv.status === "pending"
-    );
-
-    if (invitationIndex === undefined || invitationIndex === -1) {
-      throw new Error("Invitation not found or already processed");
+    if (getEventRole(event, userId) !== "owner") {
+      throw new Error("Only the owner can change roles");
+    }
+    if (!event.members.includes(memberId) || memberId === event.createdBy) {
+      throw new Error("Cannot change the role of this member");
     }
 
-    // Update invitation status
-    const updatedInvitations = [...(eventData.invitations || [])];
-    updatedInvitations[invitationIndex] = {
-      ...updatedInvitations[invitationIndex],
-      status: "rejected" as const,
-    };
-
-    await updateDoc(eventRef, {
-      invitations: updatedInvitations,
+    await updateDoc(doc(db, "events", eventId), {
+      [`roles.${memberId}`]: role === "member" ? deleteField() : role,
     });
   } catch (error: any) {
-    throw new Error(error.message || "Failed to reject invitation");
+    throw new Error(error.message || "Failed to change role");
   }
 };
 
-export const removeMemberFromEvent = async (
+// Hand the event over to another member. The previous owner stays on as a
+// co-organizer.
+export const transferEventOwnership = async (
   eventId: string,
-  memberId: string
+  newOwnerId: string,
+  userId: string
 ): Promise<void> => {
   try {
-    const eventRef = doc(db, "events", eventId);
-    const eventSnap = await getDoc(eventRef);
-
-    if (!eventSnap.exists()) {
+    const event = await getEvent(eventId);
+    if (!event) {
       throw new Error("Event not found");
     }
-
-    const eventData = eventSnap.data() as Event;
-
-    // Prevent removing the creator
-    if (eventData.createdBy === memberId) {
-      throw new Error("Cannot remove the event creator");
+    if (getEventRole(event, userId) !== "owner") {
+      throw new Error("Only the owner can transfer the event");
     }
-
-    // Check if member exists
-    if (!eventData.members?.includes(memberId)) {
-      throw new Error("User is not a member of this event");
+    if (!event.members.includes(newOwnerId) || newOwnerId === userId) {
+      throw new Error("The new owner has to be another member of the event");
     }
 
-    // Remove member from members array
-    const updatedMembers = eventData.members.filter((id) => id !== memberId);
-
-    // Also clean up accepted invitations for this user
-    // Get user's email to find their invitation
-    let updatedInvitations = eventData.invitations || [];
-    try {
-      const userData = await getUserData(memberId);
-      if (userData?.email) {
-        // Find and remove accepted invitations for this email
-        updatedInvitations = updatedInvitations.filter(
-          (inv) => !(inv.email === userData.email && inv.status === "accepted")
-        );
-      }
-    } catch (error) {
-      // If we can't get user data, continue without cleaning up invitations
-      // The inviteUserToEvent function will handle re-inviting anyway
-      console.warn("Could not fetch user data to clean up invitations:", error);
+    const newOwnerData = await getUserData(newOwnerId);
+    if (newOwnerData?.managedBy) {
+      throw new Error("Managed profiles cannot own events");
     }
 
-    await updateDoc(eventRef, {
-      members: updatedMembers,
-      invitations: updatedInvitations,
+    await updateDoc(doc(db, "events", eventId), {
+      createdBy: newOwnerId,
+      [`roles.${newOwnerId}`]: deleteField(),
+      [`roles.${userId}`]: "co-organizer",
     });
   } catch (error: any) {
-    throw new Error(error.message || "Failed to remove member");
+    throw new Error(error.message || "Failed to transfer ownership");
   }
 };
@@ -0,0 +1,100 @@
+import { getAssignmentsForEvent } from './assignments';
+import {
+  getClaimsForWishlist,
+  getFundingProgress,
+  getPledgesForWishlist,
+  getWishlistRecipientId,
+  getWishlistsForEvent,
+} from './wishlists';
+
+// A gift that was bought for someone in the event
+export interface GiftRecord {
+  wishlistId: string;
+  wishlistName: string;
+  // userId of the recipient, null for recipients without an account
+  recipientId: string | null;
+  recipientName?: string;
+  itemName: string;
+  quantity: number;
+  // Members who bought the gift, or chipped in for a group gift
+  giverIds: string[];
+  status: 'purchased' | 'delivered';
+}
+
+// Who drew whom, see lib/firestore/assignments.ts
+export interface DrawRecord {
+  giverId: string;
+  // Managed profile the giver bought for on behalf of
+  onBehalfOf?: string;
+  recipientId: string | null;
+  wishlistName?: string;
+}
+
+export interface EventHistory {
+  gifts: GiftRecord[];
+  draws: DrawRecord[];
+}
+
+// Who gave what to whom in an event. Only readable by everyone once the
+// organizer has revealed the gifts (see firestore.rules), reservations that
+// were never bought are left out.
+export const getEventHistory = async (eventId: string): Promise<EventHistory> => {
+  try {
+    const [wishlists, assignments] = await Promise.all([
+      getWishlistsForEvent(eventId),
+      getAssignmentsForEvent(eventId),
+    ]);
+
+    const giftsByWishlist = await Promise.all(
+      wishlists.map(async (wishlist) => {
+        const [claims, pledges] = await Promise.all([
+          getClaimsForWishlist(wishlist.id),
+          getPledgesForWishlist(wishlist.id),
+        ]);
+        const recipient = {
+          wishlistId: wishlist.id,
+          wishlistName: wishlist.name,
+          recipientId: getWishlistRecipientId(wishlist),
+          ...(wishlist.recipientName && { recipientName: wishlist.recipientName }),
+        };
+
+        return wishlist.items.flatMap((item): GiftRecord[] => {
+          if (item.groupGift) {
+            const itemPledges = pledges.filter((pledge) => pledge.itemId === item.id);
+            if (!getFundingProgress(item, pledges).isFullyFunded) {
+              return [];
+            }
+            return [{
+              ...recipient,
+              itemName: item.name,
+              quantity: item.quantity ?? 1,
+              giverIds: itemPledges.map((pledge) => pledge.pledgedBy),
+              status: 'purchased',
+            }];
+          }
+          return claims
+            .filter((claim) => claim.itemId === item.id && claim.status !== 'reserved')
+            .map((claim) => ({
+              ...recipient,
+              itemName: item.name,
+              quantity: claim.quantity,
+              giverIds: [claim.claimedBy],
+              status: claim.status === 'delivered' ? 'delivered' : 'purchased',
+            }));
+        });
+      })
+    );
+
+    const wishlistNames = new Map(wishlists.map((wishlist) => [wishlist.id, wishlist.name]));
+    const draws = assignments.map((assignment) => ({
+      giverId: assignment.assignedTo,
+      ...(assignment.onBehalfOf && { onBehalfOf: assignment.onBehalfOf }),
+      recipientId: assignment.recipientId ?? null,
+      ...(assignment.wishlistId && { wishlistName: wishlistNames.get(assignment.wishlistId) }),
+    }));
+
+    return { gifts: giftsByWishlist.flat(), draws };
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to load event history');
+  }
+};
@@ -0,0 +1,262 @@
+import {
+  arrayUnion,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDoc,
+  onSnapshot,
+  query,
+  QueryDocumentSnapshot,
+  setDoc,
+  Timestamp,
+  Unsubscribe,
+  updateDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { db } from '../firebase';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'rejected';
+
+// Invitations live in their own collection so invitees can look up theirs
+// with a query on their email instead of reading every event. There is one
+// invitation per event and email, see getInvitationId.
+export interface Invitation {
+  id: string;
+  eventId: string;
+  // Copied from the event when inviting, so the invitation can be shown
+  // without reading the event
+  eventName: string;
+  eventDate?: Timestamp | null;
+  email: string; // normalized, see normalizeEmail
+  status: InvitationStatus;
+  invitedBy: string;
+  invitedAt: Timestamp;
+  // Invitations copied from the event document keep the email as it was
+  // stored there when that differs, the rules check copies against it
+  legacyEmail?: string;
+}
+
+// Invitations that were stored on the event document before they had their
+// own collection, see migrateEventInvitations
+export interface LegacyInvitation {
+  email: string;
+  status: InvitationStatus;
+  invitedBy: string;
+  invitedAt: Timestamp;
+}
+
+// Emails are compared lowercased and without surrounding whitespace, the
+// same way firestore.rules compares them to the signed-in user's email
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+export const getInvitationId = (eventId: string, email: string): string =>
+  `${eventId}_${normalizeEmail(email)}`;
+
+const invitationRef = (eventId: string, email: string) =>
+  doc(db, 'invitations', getInvitationId(eventId, email));
+
+const toInvitation = (docSnap: QueryDocumentSnapshot): Invitation =>
+  ({ id: docSnap.id, ...docSnap.data() }) as Invitation;
+
+export const inviteUserToEvent = async (
+  eventId: string,
+  email: string,
+  invitedBy: string
+): Promise<void> => {
+  try {
+    const eventSnap = await getDoc(doc(db, 'events', eventId));
+    if (!eventSnap.exists()) {
+      throw new Error('Event not found');
+    }
+
+    // Invitations that were accepted or rejected can be sent again, e.g. to
+    // someone who was removed from the event
+    const ref = invitationRef(eventId, email);
+    const existingSnap = await getDoc(ref);
+    if (existingSnap.exists() && existingSnap.data().status === 'pending') {
+      throw new Error('User already invited');
+    }
+
+    await setDoc(ref, {
+      eventId,
+      eventName: eventSnap.data().name,
+      eventDate: eventSnap.data().eventDate ?? null,
+      email: normalizeEmail(email),
+      status: 'pending',
+      invitedBy,
+      invitedAt: Timestamp.now(),
+    });
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to invite user');
+  }
+};
+
+// The signed-in user's pending invitations
+export const subscribeToPendingInvitations = (
+  email: string,
+  callback: (invitations: Invitation[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const q = query(
+    collection(db, 'invitations'),
+    where('email', '==', normalizeEmail(email)),
+    where('status', '==', 'pending')
+  );
+
+  return onSnapshot(
+    q,
+    (querySnapshot) => {
+      const invitations = querySnapshot.docs
+        .map(toInvitation)
+        .sort((a, b) => a.invitedAt.seconds - b.invitedAt.seconds);
+      callback(invitations);
+    },
+    (error) => {
+      console.error('Error subscribing to invitations:', error);
+      if (onError) {
+        onError(error as Error);
+      } else {
+        callback([]);
+      }
+    }
+  );
+};
+
+// All invitations of an event, readable by its members
+export const subscribeToInvitationsForEvent = (
+  eventId: string,
+  callback: (invitations: Invitation[]) => void
+): Unsubscribe => {
+  const q = query(collection(db, 'invitations'), where('eventId', '==', eventId));
+
+  return onSnapshot(
+    q,
+    (querySnapshot) => {
+      callback(querySnapshot.docs.map(toInvitation));
+    },
+    (error) => {
+      console.error('Error subscribing to event invitations:', error);
+      callback([]);
+    }
+  );
+};
+
+// Joining the event and accepting the invitation happen together, the rules
+// only let users add themselves to events they have a pending invitation for
+export const acceptInvitation = async (
+  invitation: Invitation,
+  userId: string
+): Promise<void> => {
+  try {
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'events', invitation.eventId), {
+      members: arrayUnion(userId),
+    });
+    batch.update(doc(db, 'invitations', invitation.id), { status: 'accepted' });
+    await batch.commit();
+  } catch (error: any) {
+    if (error.code === 'permission-denied') {
+      throw new Error('Invitation not found or already processed');
+    }
+    throw new Error(error.message || 'Failed to accept invitation');
+  }
+};
+
+export const rejectInvitation = async (invitation: Invitation): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'invitations', invitation.id), { status: 'rejected' });
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to reject invitation');
+  }
+};
+
+// Used when a member is removed, so they can be invited again later
+export const deleteInvitation = async (eventId: string, email: string): Promise<void> => {
+  try {
+    await deleteDoc(invitationRef(eventId, email));
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to delete invitation');
+  }
+};
+
+// The invitations stored on an event document that don't have a document
+// in the invitations collection yet. Null for events without any.
+const getUncopiedInvitations = async (eventId: string) => {
+  const eventSnap = await getDoc(doc(db, 'events', eventId));
+  if (!eventSnap.exists()) {
+    throw new Error('Event not found');
+  }
+
+  const eventData = eventSnap.data();
+  const legacyInvitations: LegacyInvitation[] | undefined = eventData.invitations;
+  if (!legacyInvitations) {
+    return null;
+  }
+
+  // The same email may have been stored twice with different casing, the
+  // last entry is the current one
+  const byEmail = new Map(
+    legacyInvitations.map((invitation) => [normalizeEmail(invitation.email), invitation])
+  );
+  const invitations = Array.from(byEmail.values());
+  const existingSnaps = await Promise.all(
+    invitations.map((invitation) => getDoc(invitationRef(eventId, invitation.email)))
+  );
+  const writes = invitations
+    .filter((_, index) => !existingSnaps[index].exists())
+    .map((invitation) => ({
+      ref: invitationRef(eventId, invitation.email),
+      data: {
+        eventId,
+        eventName: eventData.name,
+        eventDate: eventData.eventDate ?? null,
+        email: normalizeEmail(invitation.email),
+        status: invitation.status,
+        invitedBy: invitation.invitedBy,
+        invitedAt: invitation.invitedAt,
+        ...(normalizeEmail(invitation.email) !== invitation.email && { legacyEmail: invitation.email }),
+      },
+    }));
+  return { eventRef: eventSnap.ref, writes };
+};
+
+// Invitees only look up invitations in the invitations collection, so any
+// member who opens an event still keeping them on the event document copies
+// them over. The array itself is left for an organizer to remove, see
+// migrateEventInvitations.
+export const copyLegacyInvitations = async (eventId: string): Promise<void> => {
+  try {
+    const uncopied = await getUncopiedInvitations(eventId);
+    if (!uncopied || uncopied.writes.length === 0) {
+      return;
+    }
+
+    const batch = writeBatch(db);
+    uncopied.writes.forEach(({ ref, data }) => batch.set(ref, data));
+    await batch.commit();
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to copy invitations');
+  }
+};
+
+// One-time migration of the invitations array on an event document into the
+// invitations collection, run by the organizer. Invitations a member already
+// copied are kept, their invitee may have answered them since. Does nothing
+// for events that have already been migrated.
+export const migrateEventInvitations = async (eventId: string): Promise<void> => {
+  try {
+    const uncopied = await getUncopiedInvitations(eventId);
+    if (!uncopied) {
+      return;
+    }
+
+    const batch = writeBatch(db);
+    uncopied.writes.forEach(({ ref, data }) => batch.set(ref, data));
+    batch.update(uncopied.eventRef, { invitations: deleteField() });
+    await batch.commit();
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to migrate invitations');
+  }
+};
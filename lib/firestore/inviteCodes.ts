@@ -0,0 +1,196 @@
+import { getRandomBytes } from 'expo-crypto';
+import * as Linking from 'expo-linking';
+import {
+  arrayUnion,
+  collection,
+  doc,
+  getDoc,
+  increment,
+  onSnapshot,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  Unsubscribe,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import { db } from '../firebase';
+
+// Invite codes let anyone who has the code (or the link containing it) join
+// an event, for relatives whose email the organizer doesn't know. The code is
+// the document id.
+export interface InviteCode {
+  code: string;
+  eventId: string;
+  // Copied from the event, people joining can't read the event yet
+  eventName: string;
+  createdBy: string;
+  createdAt: Timestamp;
+  expiresAt: Timestamp;
+  // null for codes that can be used any number of times
+  maxUses: number | null;
+  uses: number;
+  revokedAt?: Timestamp;
+}
+
+export interface InviteCodeOptions {
+  expiresInDays: number;
+  maxUses: number | null;
+}
+
+export const INVITE_CODE_EXPIRY_DAYS = [1, 7, 30];
+
+// No 0/O or 1/I, codes are read out and typed by hand. 32 characters, so
+// every random byte maps to a character without bias.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+const generateCode = (): string =>
+  Array.from(getRandomBytes(CODE_LENGTH))
+    .map((byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length])
+    .join('');
+
+// Codes are shown as ABCD-EFGH, and typed in any case with or without the dash
+export const normalizeInviteCode = (code: string): string =>
+  code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const formatInviteCode = (code: string): string =>
+  `${code.slice(0, CODE_LENGTH / 2)}-${code.slice(CODE_LENGTH / 2)}`;
+
+// Deep link to the join screen, giftplannerapp://join/CODE in builds
+export const getInviteLink = (code: string): string => Linking.createURL(`join/${code}`);
+
+// Why a code can't be used, or null if it can
+export const getInviteCodeProblem = (inviteCode: InviteCode, now: Date = new Date()): string | null => {
+  if (inviteCode.revokedAt) {
+    return 'This invite has been revoked';
+  }
+  if (inviteCode.expiresAt.toMillis() <= now.getTime()) {
+    return 'This invite has expired';
+  }
+  if (inviteCode.maxUses !== null && inviteCode.uses >= inviteCode.maxUses) {
+    return 'This invite has been used up';
+  }
+  return null;
+};
+
+export const createInviteCode = async (
+  eventId: string,
+  createdBy: string,
+  options: InviteCodeOptions
+): Promise<string> => {
+  try {
+    const eventSnap = await getDoc(doc(db, 'events', eventId));
+    if (!eventSnap.exists()) {
+      throw new Error('Event not found');
+    }
+
+    const code = generateCode();
+    const expiresAt = new Date(Date.now() + options.expiresInDays * 24 * 60 * 60 * 1000);
+    await setDoc(doc(db, 'inviteCodes', code), {
+      eventId,
+      eventName: eventSnap.data().name,
+      createdBy,
+      createdAt: serverTimestamp(),
+      expiresAt: Timestamp.fromDate(expiresAt),
+      maxUses: options.maxUses,
+      uses: 0,
+    });
+    return code;
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to create invite code');
+  }
+};
+
+export const getInviteCode = async (code: string): Promise<InviteCode | null> => {
+  try {
+    const codeSnap = await getDoc(doc(db, 'inviteCodes', normalizeInviteCode(code)));
+    if (!codeSnap.exists()) {
+      return null;
+    }
+    return { code: codeSnap.id, ...codeSnap.data() } as InviteCode;
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to load invite code');
+  }
+};
+
+// Invite codes of an event, newest first. Only the organizer can list them.
+export const subscribeToInviteCodesForEvent = (
+  eventId: string,
+  callback: (inviteCodes: InviteCode[]) => void
+): Unsubscribe => {
+  const q = query(collection(db, 'inviteCodes'), where('eventId', '==', eventId));
+
+  return onSnapshot(
+    q,
+    (querySnapshot) => {
+      const inviteCodes = querySnapshot.docs
+        .map((codeDoc) => ({ code: codeDoc.id, ...codeDoc.data() }) as InviteCode)
+        .sort((a, b) => b.expiresAt.seconds - a.expiresAt.seconds);
+      callback(inviteCodes);
+    },
+    (error) => {
+      console.error('Error subscribing to invite codes:', error);
+      callback([]);
+    }
+  );
+};
+
+export const revokeInviteCode = async (code: string): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'inviteCodes', code), {
+      revokedAt: serverTimestamp(),
+    });
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to revoke invite code');
+  }
+};
+
+// Join the event of an invite code. Returns the event id. Users who are
+// already members don't use up the code.
+//
+// The rules only let users add themselves to an event together with a join
+// record stamped with the request time (eventJoins/{eventId}_{userId}), and
+// only allow that record while the code is valid and counts the use.
+export const joinEventWithCode = async (code: string, userId: string): Promise<string> => {
+  try {
+    const codeRef = doc(db, 'inviteCodes', normalizeInviteCode(code));
+
+    return await runTransaction(db, async (transaction) => {
+      const codeSnap = await transaction.get(codeRef);
+      if (!codeSnap.exists()) {
+        throw new Error('Invite code not found');
+      }
+
+      const inviteCode = { code: codeSnap.id, ...codeSnap.data() } as InviteCode;
+      const eventRef = doc(db, 'events', inviteCode.eventId);
+
+      // Members can read the event, everyone else gets permission-denied
+      const isMember = await getDoc(eventRef)
+        .then((eventSnap) => eventSnap.exists() && eventSnap.data().members?.includes(userId))
+        .catch(() => false);
+      if (isMember) {
+        return inviteCode.eventId;
+      }
+
+      const problem = getInviteCodeProblem(inviteCode);
+      if (problem) {
+        throw new Error(problem);
+      }
+
+      transaction.set(doc(db, 'eventJoins', `${inviteCode.eventId}_${userId}`), {
+        eventId: inviteCode.eventId,
+        code: inviteCode.code,
+        userId,
+        joinedAt: serverTimestamp(),
+      });
+      transaction.update(codeRef, { uses: increment(1) });
+      transaction.update(eventRef, { members: arrayUnion(userId) });
+      return inviteCode.eventId;
+    });
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to join event');
+  }
+};
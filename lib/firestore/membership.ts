@@ -0,0 +1,127 @@
+import {
+  arrayRemove,
+  collection,
+  deleteField,
+  doc,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { getUserData } from '../auth';
+import { db } from '../firebase';
+import { getAssignmentsForEvent, getAssignmentsForEventAndUser } from './assignments';
+import { removeDependentFromEvent } from './dependents';
+import {
+  canSeeAllAssignments,
+  getEvent,
+  getEventRole,
+  transferEventOwnership,
+} from './events';
+import { deleteInvitation } from './invitations';
+import { deleteWishlist, getWishlistsForEvent } from './wishlists';
+
+export interface LeaveEventOptions {
+  // Also delete the wishlists the user created in the event. They are purged
+  // by the organizers once the undo window is over.
+  deleteWishlists: boolean;
+  // Required when the owner leaves, see getOwnerSuccessors
+  newOwnerId?: string;
+}
+
+// Members the owner can hand the event to before leaving. Managed profiles
+// can't own events.
+export const getOwnerSuccessors = async (eventId: string, userId: string): Promise<string[]> => {
+  try {
+    const event = await getEvent(eventId);
+    if (!event) {
+      throw new Error('Event not found');
+    }
+
+    const candidates = event.members.filter((memberId) => memberId !== userId);
+    const candidateData = await Promise.all(candidates.map((memberId) => getUserData(memberId)));
+    return candidates.filter((_, index) => !candidateData[index]?.managedBy);
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to load members');
+  }
+};
+
+// Leave an event. The managed profiles of the user leave with them, and the
+// assignments where the user (or one of their profiles) gives or receives a
+// gift are deleted, so the organizers can draw again. In blind mode the user
+// can't see who draws them, those assignments are left to the organizers.
+// The owner hands the event to a successor first and then leaves as a
+// co-organizer.
+export const leaveEvent = async (
+  eventId: string,
+  userId: string,
+  options: LeaveEventOptions
+): Promise<void> => {
+  try {
+    const event = await getEvent(eventId);
+    if (!event || !event.members.includes(userId)) {
+      throw new Error('You are not a member of this event');
+    }
+
+    if (getEventRole(event, userId) === 'owner') {
+      if (!options.newOwnerId) {
+        throw new Error('Pick a new owner before leaving the event');
+      }
+      await transferEventOwnership(eventId, options.newOwnerId, userId);
+    }
+
+    // Managed profiles only belong to events their manager is in
+    const dependentsSnapshot = await getDocs(
+      query(collection(db, 'users'), where('managedBy', '==', userId))
+    );
+    const dependentIds = dependentsSnapshot.docs
+      .map((dependentDoc) => dependentDoc.id)
+      .filter((dependentId) => event.members.includes(dependentId));
+    for (const dependentId of dependentIds) {
+      await removeDependentFromEvent(eventId, dependentId);
+    }
+
+    if (options.deleteWishlists) {
+      const wishlists = await getWishlistsForEvent(eventId);
+      await Promise.all(
+        wishlists
+          .filter((wishlist) => wishlist.createdBy === userId)
+          .map((wishlist) => deleteWishlist(wishlist.id))
+      );
+    }
+
+    // Assignments bought on behalf of a managed profile are assigned to the user
+    const leavingIds = new Set([userId, ...dependentIds]);
+    const assignments = canSeeAllAssignments(event, userId)
+      ? (await getAssignmentsForEvent(eventId)).filter(
+          (assignment) =>
+            leavingIds.has(assignment.assignedTo) ||
+            (!!assignment.recipientId && leavingIds.has(assignment.recipientId))
+        )
+      : await getAssignmentsForEventAndUser(eventId, userId);
+
+    // The rules only let users delete these assignments while leaving, so
+    // both happen in one batch
+    const batch = writeBatch(db);
+    assignments.forEach((assignment) => {
+      batch.delete(doc(db, 'assignments', assignment.id));
+    });
+    batch.update(doc(db, 'events', eventId), {
+      members: arrayRemove(userId),
+      [`roles.${userId}`]: deleteField(),
+    });
+    await batch.commit();
+
+    try {
+      const userData = await getUserData(userId);
+      if (userData?.email) {
+        await deleteInvitation(eventId, userData.email);
+      }
+    } catch (error) {
+      // The user has left either way, the invitation only allows re-inviting
+      console.warn('Could not clean up invitation:', error);
+    }
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to leave event');
+  }
+};
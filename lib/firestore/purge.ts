@@ -0,0 +1,239 @@
+import {
+  arrayRemove,
+  collection,
+  doc,
+  DocumentReference,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { isPurgeDue } from '../deletion';
+import { db } from '../firebase';
+import { deleteItemImage } from '../images';
+import { Assignment, getAssignmentsForEvent, getAssignmentsForEventAndUser } from './assignments';
+import { canSeeAllAssignments, Event, getEvent, getEventRole, isEventOrganizer } from './events';
+import { canSeeClaims, Wishlist, WishlistItem } from './wishlists';
+
+// Deleted events and wishlists are purged from the client once their undo
+// window is over: whoever may purge them does so the next time they open the
+// events list or the event's wishlists. The rules only allow these deletes
+// after the window (see isPastUndoWindow in firestore.rules).
+
+// Firestore batches hold at most 500 writes
+const MAX_BATCH_WRITES = 500;
+
+// Documents are deleted unless an update is given
+interface PurgeWrite {
+  ref: DocumentReference;
+  update?: Record<string, unknown>;
+}
+
+// Commit the writes in order, in as few batches as possible. The parent
+// document goes last, so a purge that fails halfway can be run again.
+const commitInBatches = async (writes: PurgeWrite[]): Promise<void> => {
+  for (let start = 0; start < writes.length; start += MAX_BATCH_WRITES) {
+    const batch = writeBatch(db);
+    writes.slice(start, start + MAX_BATCH_WRITES).forEach((write) => {
+      if (write.update) {
+        batch.update(write.ref, write.update);
+      } else {
+        batch.delete(write.ref);
+      }
+    });
+    await batch.commit();
+  }
+};
+
+const isPurgeable = (data: { deletedAt?: Event['deletedAt'] }): boolean =>
+  !!data.deletedAt && isPurgeDue(data.deletedAt.toDate());
+
+// Whether the user purges the deleted wishlist: its creator, or an organizer
+// of its event in case the creator has left
+export const canPurgeWishlist = (wishlist: Wishlist, event: Event, userId: string): boolean =>
+  isPurgeable(wishlist) && (wishlist.createdBy === userId || isEventOrganizer(event, userId));
+
+export const canPurgeEvent = (event: Event, userId: string): boolean =>
+  isPurgeable(event) && getEventRole(event, userId) === 'owner';
+
+// Deletes for the wishlist's items, claims and pledges, followed by the
+// wishlist itself. Recipients in surprise mode can't read the claims and
+// pledges, so those are deleted by their known ids instead.
+const getWishlistDeletes = async (
+  wishlist: Wishlist,
+  event: Event,
+  userId: string
+): Promise<{ writes: PurgeWrite[]; imagePaths: string[] }> => {
+  const wishlistRef = doc(db, 'wishlists', wishlist.id);
+  const itemsSnapshot = await getDocs(collection(wishlistRef, 'items'));
+  const items = itemsSnapshot.docs.map((itemDoc) => ({ id: itemDoc.id, ...itemDoc.data() }) as WishlistItem);
+
+  const writes: PurgeWrite[] = items.map((item) => ({ ref: doc(wishlistRef, 'items', item.id) }));
+  if (canSeeClaims(wishlist, userId)) {
+    const [claimsSnapshot, pledgesSnapshot] = await Promise.all([
+      getDocs(collection(wishlistRef, 'claims')),
+      getDocs(collection(wishlistRef, 'pledges')),
+    ]);
+    [...claimsSnapshot.docs, ...pledgesSnapshot.docs].forEach((claimDoc) => {
+      writes.push({ ref: claimDoc.ref });
+    });
+  } else {
+    items.forEach((item) => {
+      writes.push({ ref: doc(wishlistRef, 'claims', item.id) });
+      if (item.groupGift) {
+        event.members.forEach((memberId) => {
+          writes.push({ ref: doc(wishlistRef, 'pledges', `${item.id}_${memberId}`) });
+        });
+      }
+    });
+  }
+  writes.push({ ref: wishlistRef });
+
+  const imagePaths = items.flatMap((item) => (item.imagePath ? [item.imagePath] : []));
+  return { writes, imagePaths };
+};
+
+// Uploaded photos go after the documents, a photo that fails to delete is
+// only wasted storage
+const removeImages = (imagePaths: string[]) => {
+  imagePaths.forEach((imagePath) => {
+    deleteItemImage(imagePath).catch((error) => {
+      console.error('Error deleting item image:', error);
+    });
+  });
+};
+
+// Assignments for a purged wishlist keep their recipient and lose the
+// wishlist, assignments for a recipient without an account are deleted since
+// the wishlist was all they had
+const detachAssignment = (assignment: Pick<Assignment, 'id' | 'recipientId'>): PurgeWrite => {
+  const ref = doc(db, 'assignments', assignment.id);
+  return assignment.recipientId ? { ref, update: { wishlistId: null } } : { ref };
+};
+
+// Purge a deleted wishlist for good. Organizers who see every assignment of
+// the event detach the wishlist's assignments along with it, otherwise each
+// buyer does so later with detachPurgedWishlists.
+export const purgeWishlist = async (wishlist: Wishlist, userId: string): Promise<void> => {
+  try {
+    if (!wishlist.eventId) {
+      throw new Error('Personal wishlists cannot be deleted');
+    }
+    const event = await getEvent(wishlist.eventId);
+    if (!event || !canPurgeWishlist(wishlist, event, userId)) {
+      throw new Error('This wishlist cannot be purged yet');
+    }
+
+    const writes: PurgeWrite[] = [];
+    if (isEventOrganizer(event, userId) && canSeeAllAssignments(event, userId)) {
+      const assignmentsSnapshot = await getDocs(
+        query(
+          collection(db, 'assignments'),
+          where('eventId', '==', event.id),
+          where('wishlistId', '==', wishlist.id)
+        )
+      );
+      assignmentsSnapshot.docs.forEach((assignmentDoc) => {
+        writes.push(detachAssignment({ id: assignmentDoc.id, recipientId: assignmentDoc.data().recipientId }));
+      });
+    }
+
+    // The personal wishlist this one was linked to stops syncing into it
+    if (wishlist.sourceWishlistId && wishlist.createdBy === userId) {
+      writes.push({
+        ref: doc(db, 'wishlists', wishlist.sourceWishlistId),
+        update: { linkedWishlistIds: arrayRemove(wishlist.id) },
+      });
+    }
+
+    const { writes: deletes, imagePaths } = await getWishlistDeletes(wishlist, event, userId);
+    await commitInBatches([...writes, ...deletes]);
+    removeImages(imagePaths);
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to purge wishlist');
+  }
+};
+
+// Detach the user's own assignments from wishlists that were purged by
+// someone who couldn't read them. Only the user's assignments as a buyer are
+// changed, the rules check that their wishlist is gone.
+export const detachPurgedWishlists = async (
+  eventId: string,
+  assignments: Assignment[],
+  userId: string
+): Promise<void> => {
+  try {
+    const ownAssignments = assignments.filter(
+      (assignment) => assignment.assignedTo === userId && assignment.wishlistId
+    );
+    if (ownAssignments.length === 0) return;
+
+    // Deleted wishlists still in their undo window count as existing
+    const wishlistsSnapshot = await getDocs(
+      query(collection(db, 'wishlists'), where('eventId', '==', eventId))
+    );
+    const wishlistIds = new Set(wishlistsSnapshot.docs.map((wishlistDoc) => wishlistDoc.id));
+    await commitInBatches(
+      ownAssignments
+        .filter((assignment) => !wishlistIds.has(assignment.wishlistId as string))
+        .map(detachAssignment)
+    );
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to detach purged wishlists');
+  }
+};
+
+// Purge a deleted event for good: its wishlists, assignments, invitations,
+// invite codes, draw seed and join records, then the event itself. Personal budgets are
+// private to their users and stay behind unused.
+export const purgeEvent = async (eventId: string, userId: string): Promise<void> => {
+  try {
+    const event = await getEvent(eventId);
+    if (!event || !canPurgeEvent(event, userId)) {
+      throw new Error('This event cannot be purged yet');
+    }
+
+    // One wishlist at a time, each batch has a limited number of documents
+    // the rules can look up
+    const wishlistsSnapshot = await getDocs(
+      query(collection(db, 'wishlists'), where('eventId', '==', eventId))
+    );
+    const wishlists = wishlistsSnapshot.docs.map((wishlistDoc) => ({
+      id: wishlistDoc.id,
+      ...wishlistDoc.data(),
+    })) as Wishlist[];
+    for (const wishlist of wishlists) {
+      const { writes, imagePaths } = await getWishlistDeletes(wishlist, event, userId);
+      await commitInBatches(writes);
+      removeImages(imagePaths);
+    }
+
+    // Blind organizers delete the drawn assignments by id, like a redraw does
+    const assignmentIds = canSeeAllAssignments(event, userId)
+      ? (await getAssignmentsForEvent(eventId)).map((assignment) => assignment.id)
+      : [
+          ...(event.lastDraw?.assignmentIds || []),
+          ...(event.manualAssignmentIds || []),
+          ...(await getAssignmentsForEventAndUser(eventId, userId)).map((assignment) => assignment.id),
+        ];
+
+    const [invitationsSnapshot, inviteCodesSnapshot] = await Promise.all([
+      getDocs(query(collection(db, 'invitations'), where('eventId', '==', eventId))),
+      getDocs(query(collection(db, 'inviteCodes'), where('eventId', '==', eventId))),
+    ]);
+
+    const writes: PurgeWrite[] = [
+      ...Array.from(new Set(assignmentIds)).map((assignmentId) => ({
+        ref: doc(db, 'assignments', assignmentId),
+      })),
+      ...invitationsSnapshot.docs.map((invitationDoc) => ({ ref: invitationDoc.ref })),
+      ...inviteCodesSnapshot.docs.map((codeDoc) => ({ ref: codeDoc.ref })),
+      ...event.members.map((memberId) => ({ ref: doc(db, 'eventJoins', `${eventId}_${memberId}`) })),
+      { ref: doc(db, 'drawSeeds', eventId) },
+      { ref: doc(db, 'events', eventId) },
+    ];
+    await commitInBatches(writes);
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to purge event');
+  }
+};
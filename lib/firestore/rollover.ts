@@ -0,0 +1,79 @@
+import {
+  collection,
+  doc,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  updateDoc,
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { getNextOccurrence, getNextOccurrenceName } from '../recurrence';
+import { Event, isEventOrganizer } from './events';
+import { carryOverWishlists } from './wishlists';
+
+// Roll a recurring event over to its next occurrence: a new event with the
+// same members and settings, and the wishlist items nobody bought yet. The
+// current event is archived, so its purchases and assignments stay as
+// history. Returns the id of the new event.
+//
+// The new event is created together with the current event's link to it, and
+// the current event is only archived once the wishlists are carried over. A
+// roll-over that failed halfway is resumed on the same new event by running it
+// again, carryOverWishlists skips the wishlists it already copied.
+export const rollOverEvent = async (eventId: string, userId: string): Promise<string> => {
+  try {
+    const eventRef = doc(db, 'events', eventId);
+    const nextEventId = await runTransaction(db, async (transaction) => {
+      const eventSnap = await transaction.get(eventRef);
+      if (!eventSnap.exists()) {
+        throw new Error('Event not found');
+      }
+      const event = { id: eventSnap.id, ...eventSnap.data() } as Event;
+      if (!isEventOrganizer(event, userId)) {
+        throw new Error('Only organizers can roll the event over');
+      }
+      if (event.nextOccurrenceId) {
+        if (event.archivedAt) {
+          throw new Error('This event has already been rolled over');
+        }
+        return event.nextOccurrenceId;
+      }
+      if (!event.recurrence || !event.eventDate) {
+        throw new Error('Only recurring events with a date can be rolled over');
+      }
+
+      const eventDate = event.eventDate.toDate();
+      const nextDate = getNextOccurrence(eventDate, event.recurrence);
+
+      // Assignments are not carried over, there's a new draw every occurrence
+      const nextEventRef = doc(collection(db, 'events'));
+      transaction.set(nextEventRef, {
+        name: getNextOccurrenceName(event.name, eventDate, nextDate),
+        createdBy: event.createdBy,
+        createdAt: serverTimestamp(),
+        eventDate: Timestamp.fromDate(nextDate),
+        members: event.members,
+        ...(event.roles && { roles: event.roles }),
+        recurrence: event.recurrence,
+        previousOccurrenceId: eventId,
+        ...(event.currency && { currency: event.currency }),
+        ...(event.giftLimit && { giftLimit: event.giftLimit }),
+        ...(event.drawExclusions && { drawExclusions: event.drawExclusions }),
+        ...(event.assignmentVisibility && { assignmentVisibility: event.assignmentVisibility }),
+        ...(event.organizerBlind !== undefined && { organizerBlind: event.organizerBlind }),
+      });
+      transaction.update(eventRef, { nextOccurrenceId: nextEventRef.id });
+      return nextEventRef.id;
+    });
+
+    await carryOverWishlists(eventId, nextEventId, userId);
+
+    await updateDoc(eventRef, {
+      archivedAt: serverTimestamp(),
+    });
+
+    return nextEventId;
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to roll over event');
+  }
+};
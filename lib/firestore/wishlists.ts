@@ -1,19 +1,39 @@
 import {
   addDoc,
+  arrayRemove,
+  arrayUnion,
   collection,
   deleteDoc,
+  deleteField,
   doc,
+  DocumentReference,
+  DocumentSnapshot,
   getDoc,
   getDocs,
+  limit,
   onSnapshot,
+  orderBy,
   query,
+  QueryDocumentSnapshot,
+  runTransaction,
   serverTimestamp,
+  setDoc,
   Timestamp,
   Unsubscribe,
   updateDoc,
   where,
+  writeBatch,
 } from 'firebase/firestore';
+import { getUserData } from '../auth';
+import { convertAmount, ConvertedTotal, ExchangeRates, sumInCurrency } from '../currency';
+import { isPurgeDue } from '../deletion';
 import { db } from '../firebase';
+import { canContributeToEvent, getEvent, getEventsForUser, isEventArchived } from './events';
+import {
+  generateKeyBetween,
+  generateNKeysBetween,
+} from '../fractionalIndex';
+import { copyItemImage, deleteItemImage, ItemImage } from '../images';
 
 // Helper function to remove undefined values from objects
 const removeUndefined = <T extends Record<string, any>>(obj: T): Partial<T> => {
@@ -31,45 +51,490 @@ export interface WishlistItem {
   name: string;
   description?: string;
   link?: string;
+  // Product image, either linked (e.g. from the shop page's link preview)
+  // or an uploaded photo
+  imageUrl?: string;
+  // Small version of uploaded photos for the list cards
+  thumbnailUrl?: string;
+  // Storage path of uploaded photos, so they can be removed with the item
+  imagePath?: string;
   price?: number;
-  purchasedBy?: string;
-  purchasedAt?: Timestamp;
+  // ISO 4217 code of the price, defaults to the event's currency
+  currency?: string;
+  // How much the recipient wants the item, see getItemPriority
+  priority?: ItemPriority;
+  // Replaced by priority, still set on items starred before priorities existed
   isFavorite?: boolean;
+  // Group gifts are funded by pledges from several members instead of being
+  // claimed by a single one
+  groupGift?: boolean;
+  // How many the recipient wants (defaults to 1), e.g. "socks, 3 pairs"
+  quantity?: number;
+  // Open-ended items like gift cards, where any number of duplicates is welcome
+  unlimited?: boolean;
+  // Details that free-text descriptions tend to get wrong, e.g. for clothes
+  size?: string;
+  color?: string;
+  // Model, edition or other variant of the product
+  variant?: string;
+  // true: only this exact item will do, false: something similar is fine.
+  // Unset when the recipient didn't say.
+  exactItem?: boolean;
+  // On wishlists linked to a personal wishlist: id of the personal item this
+  // is a copy of, kept in sync by syncLinkedWishlists
+  sourceItemId?: string;
+  // Fractional ordering key (see lib/fractionalIndex.ts)
+  order: string;
+}
+
+export type NewWishlistItem = Omit<WishlistItem, 'id' | 'order'>;
+
+export type ItemPriority = 'must-have' | 'would-love' | 'nice-to-have' | 'idea';
+
+// Highest priority first
+export const ITEM_PRIORITIES: ItemPriority[] = ['must-have', 'would-love', 'nice-to-have', 'idea'];
+
+export const ITEM_PRIORITY_LABELS: Record<ItemPriority, string> = {
+  'must-have': 'Must-have',
+  'would-love': 'Would love',
+  'nice-to-have': 'Nice to have',
+  idea: 'Just an idea',
+};
+
+export const DEFAULT_ITEM_PRIORITY: ItemPriority = 'nice-to-have';
+
+// Items starred as favorites before priorities existed count as must-haves
+export const getItemPriority = (item: WishlistItem): ItemPriority =>
+  item.priority ?? (item.isFavorite ? 'must-have' : DEFAULT_ITEM_PRIORITY);
+
+export type ItemAttributes = Pick<WishlistItem, 'size' | 'color' | 'variant' | 'exactItem'>;
+
+// Short labels for an item's attributes, in display order
+export const getItemAttributeLabels = (item: ItemAttributes): string[] => {
+  const labels: string[] = [];
+  if (item.size) labels.push(`Size ${item.size}`);
+  if (item.color) labels.push(item.color);
+  if (item.variant) labels.push(item.variant);
+  if (item.exactItem === true) labels.push('Exact item only');
+  if (item.exactItem === false) labels.push('Similar is fine');
+  return labels;
+};
+
+// Case-insensitive search over an item's name, description and attributes.
+// Every word of the query has to match somewhere.
+export const itemMatchesSearch = (item: WishlistItem, searchQuery: string): boolean => {
+  const words = searchQuery.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return true;
+  }
+  const text = [item.name, item.description, ...getItemAttributeLabels(item)]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+  return words.every((word) => text.includes(word));
+};
+
+// Lifecycle of a claimed item: someone says "I'm going to get this", then
+// buys it, then optionally hands it over / wraps it
+export type ClaimStatus = 'reserved' | 'purchased' | 'delivered';
+
+const CLAIM_STATUS_ORDER: ClaimStatus[] = ['reserved', 'purchased', 'delivered'];
+
+// Purchase state is stored in wishlists/{wishlistId}/claims/{itemId} rather
+// than on the item itself, so Firestore rules can hide it from the recipient
+export interface ItemClaim {
+  itemId: string;
+  claimedBy: string; // userId of the member who reserved or bought the item
+  status: ClaimStatus;
+  quantity: number; // how many of the item this member reserved or bought
+  reservedAt: Timestamp;
+  purchasedAt?: Timestamp;
+  deliveredAt?: Timestamp;
 }
 
+// Items that want more than one can be claimed by several members. Their
+// claims are kept together in the item's claim document, one share per
+// member keyed by userId, so the requested quantity can be checked atomically.
+type ClaimShare = Omit<ItemClaim, 'itemId' | 'claimedBy'>;
+
+// Claims written before reservations existed only have purchasedBy/purchasedAt
+type ClaimDocument = Partial<ItemClaim> & {
+  itemId: string;
+  purchasedBy?: string;
+  shares?: Record<string, ClaimShare>;
+};
+
+const toItemClaim = (data: ClaimDocument): ItemClaim => ({
+  ...data,
+  claimedBy: data.claimedBy ?? data.purchasedBy ?? '',
+  status: data.status ?? 'purchased',
+  quantity: data.quantity ?? 1,
+  reservedAt: data.reservedAt ?? data.purchasedAt ?? Timestamp.now(),
+});
+
+// All claims stored in a claim document: the single claim and/or the shares
+const toItemClaims = (data: ClaimDocument): ItemClaim[] => {
+  const { shares, ...claimData } = data;
+  const claims: ItemClaim[] = Object.entries(shares || {}).map(
+    ([claimedBy, share]) => ({ ...share, itemId: data.itemId, claimedBy })
+  );
+  if (claimData.claimedBy || claimData.purchasedBy) {
+    claims.unshift(toItemClaim(claimData));
+  }
+  return claims;
+};
+
+// Whether several members can claim the item, each for a quantity
+export const allowsMultipleClaims = (item: WishlistItem): boolean => {
+  return !!item.unlimited || (item.quantity ?? 1) > 1;
+};
+
+export interface ItemFulfilment {
+  requested: number | null; // null for open-ended items
+  reserved: number;
+  purchased: number; // includes delivered
+  // The least advanced stage of the item's claims once the requested quantity
+  // is covered. Undefined while the item is unclaimed, partially claimed or
+  // open-ended, so it stays in its regular place in the list.
+  status?: ClaimStatus;
+}
+
+export const getItemFulfilment = (
+  item: WishlistItem,
+  claims: ItemClaim[]
+): ItemFulfilment => {
+  const itemClaims = claims.filter((claim) => claim.itemId === item.id);
+  const requested = item.unlimited ? null : item.quantity ?? 1;
+  const reserved = itemClaims
+    .filter((claim) => claim.status === 'reserved')
+    .reduce((total, claim) => total + claim.quantity, 0);
+  const purchased = itemClaims
+    .filter((claim) => claim.status !== 'reserved')
+    .reduce((total, claim) => total + claim.quantity, 0);
+
+  const isCovered = requested !== null && itemClaims.length > 0 && reserved + purchased >= requested;
+  const status = isCovered
+    ? CLAIM_STATUS_ORDER.find((stage) => itemClaims.some((claim) => claim.status === stage))
+    : undefined;
+  return { requested, reserved, purchased, status };
+};
+
+// Claim fields for the given stage: each stage keeps the timestamps of the
+// stages before it and drops the ones after it
+const claimStageUpdate = (claim: ItemClaim | null, status: ClaimStatus) => {
+  const now = Timestamp.now();
+  const stageIndex = CLAIM_STATUS_ORDER.indexOf(status);
+  return {
+    status,
+    reservedAt: claim?.reservedAt ?? now,
+    purchasedAt: stageIndex >= 1 ? (claim?.purchasedAt ?? now) : deleteField(),
+    deliveredAt: stageIndex >= 2 ? (claim?.deliveredAt ?? now) : deleteField(),
+  };
+};
+
+const claimRef = (wishlistId: string, itemId: string) =>
+  doc(db, 'wishlists', wishlistId, 'claims', itemId);
+
+// A member's contribution to a group gift, stored in
+// wishlists/{wishlistId}/pledges/{itemId}_{userId} so each member has at most
+// one pledge per item. Hidden from the recipient just like claims.
+export interface ItemPledge {
+  itemId: string;
+  pledgedBy: string; // userId of the contributing member
+  amount: number;
+  pledgedAt: Timestamp;
+}
+
+const pledgeRef = (wishlistId: string, itemId: string, userId: string) =>
+  doc(db, 'wishlists', wishlistId, 'pledges', `${itemId}_${userId}`);
+
+export interface FundingProgress {
+  pledged: number;
+  remaining: number | null; // null when the item has no price
+  isFullyFunded: boolean;
+}
+
+// How much of a group gift's price has been pledged. Items without a price
+// can't be fully funded, they only collect pledges.
+export const getFundingProgress = (
+  item: WishlistItem,
+  pledges: ItemPledge[]
+): FundingProgress => {
+  const pledged = pledges
+    .filter((pledge) => pledge.itemId === item.id)
+    .reduce((total, pledge) => total + pledge.amount, 0);
+
+  if (!item.price) {
+    return { pledged, remaining: null, isFullyFunded: false };
+  }
+  return {
+    pledged,
+    remaining: Math.max(item.price - pledged, 0),
+    isFullyFunded: pledged >= item.price,
+  };
+};
+
 export interface Wishlist {
   id: string;
   name: string;
-  eventId: string;
+  // null for personal wishlists, which don't belong to any event
+  eventId: string | null;
   createdBy: string;
   createdAt: Timestamp;
+  // Who the list is for: an event member, or someone without an account
+  // (e.g. a kid or a pet) who only has a name. Lists with neither are for
+  // their creator.
+  recipientId?: string;
+  recipientName?: string;
+  // userId of the account managing the recipient when the list is for a
+  // managed profile (see lib/firestore/dependents.ts). The manager is kept
+  // out of the surprise just like the recipient.
+  recipientManagedBy?: string;
+  // Loaded from the wishlists/{wishlistId}/items subcollection
   items: WishlistItem[];
+  // When enabled (the default), the recipient cannot see claims
+  surpriseMode?: boolean;
+  // Event wishlists shared from a personal wishlist as a live link: id of the
+  // personal wishlist whose items are mirrored here
+  sourceWishlistId?: string;
+  // Personal wishlists: ids of the event wishlists linked to it
+  linkedWishlistIds?: string[];
+  // Set when the creator deletes the wishlist. It can be restored until the
+  // undo window is over, then it is purged (see lib/firestore/purge.ts).
+  deletedAt?: Timestamp;
+  // Wishlists carried over to the next occurrence of a recurring event: id of
+  // the wishlist they were copied from
+  carriedFrom?: string;
+  // Set while the wishlist document still embeds legacy items, until
+  // migrateEmbeddedItems has moved them out
+  hasEmbeddedItems?: boolean;
 }
 
-// Helper function to clean wishlist items array
-const cleanWishlistItems = (items: WishlistItem[]): WishlistItem[] => {
-  return items.map((item) => {
-    const cleaned = removeUndefined(item);
-    return {
-      id: item.id,
-      name: item.name,
-      ...cleaned,
-    } as WishlistItem;
-  });
+export type ShareMode = 'live' | 'snapshot';
+
+// Every user has at most one personal wishlist. It lives outside of events,
+// so the same wishes can be shared into every birthday and holiday. Claims
+// stay with the event wishlists it is shared into, so an item bought for one
+// event is still open in the next.
+const PERSONAL_WISHLIST_PREFIX = 'personal_';
+
+export const getPersonalWishlistId = (userId: string): string => `${PERSONAL_WISHLIST_PREFIX}${userId}`;
+
+export const isPersonalWishlist = (wishlist: Pick<Wishlist, 'eventId'>): boolean =>
+  wishlist.eventId === null;
+
+// A wishlist items can be copied or moved into, see getItemTargetsForUser
+export interface ItemTarget {
+  wishlistId: string;
+  name: string;
+  eventId: string | null;
+  eventName: string | null;
+}
+
+export type WishlistRecipient =
+  | { type: 'member'; userId: string }
+  | { type: 'named'; name: string };
+
+export const getWishlistRecipient = (
+  wishlist: Pick<Wishlist, 'createdBy' | 'recipientId' | 'recipientName'>
+): WishlistRecipient => {
+  if (wishlist.recipientName) {
+    return { type: 'named', name: wishlist.recipientName };
+  }
+  return { type: 'member', userId: wishlist.recipientId ?? wishlist.createdBy };
+};
+
+// userId of the member the wishlist is for, or null when it's for someone
+// without an account. Mirrors recipientId() in firestore.rules.
+export const getWishlistRecipientId = (
+  wishlist: Pick<Wishlist, 'createdBy' | 'recipientId' | 'recipientName'>
+): string | null => {
+  if (wishlist.recipientName) {
+    return null;
+  }
+  return wishlist.recipientId ?? wishlist.createdBy;
+};
+
+// Whether the user is the wishlist's recipient, or manages the recipient
+export const isWishlistRecipient = (
+  wishlist: Pick<Wishlist, 'createdBy' | 'recipientId' | 'recipientName' | 'recipientManagedBy'>,
+  userId: string
+): boolean => {
+  return getWishlistRecipientId(wishlist) === userId || wishlist.recipientManagedBy === userId;
+};
+
+// Thrown by claimItem when another member claimed the item first
+export class ItemAlreadyClaimedError extends Error {
+  claimedBy: string; // userId of the member holding the claim
+
+  constructor(claimedBy: string) {
+    super('This item has already been claimed by someone else');
+    this.name = 'ItemAlreadyClaimedError';
+    this.claimedBy = claimedBy;
+  }
+}
+
+// Thrown by claimItem when other members already claimed most of the
+// requested quantity
+export class ItemQuantityUnavailableError extends Error {
+  available: number; // how many can still be claimed
+
+  constructor(available: number) {
+    super(
+      available > 0
+        ? `Only ${available} more can be claimed`
+        : 'The requested quantity has already been claimed'
+    );
+    this.name = 'ItemQuantityUnavailableError';
+    this.available = available;
+  }
+}
+
+// Total price of a wishlist's items in the given currency. Items without a
+// currency are priced in `currency`, open-ended items count once.
+export const getWishlistTotal = (
+  wishlist: Wishlist,
+  currency: string,
+  rates: ExchangeRates
+): ConvertedTotal => {
+  const amounts = (wishlist.items || [])
+    .filter((item) => item.price)
+    .map((item) => ({
+      amount: item.price! * (item.unlimited ? 1 : item.quantity ?? 1),
+      currency: item.currency || currency,
+    }));
+  return sumInCurrency(amounts, currency, rates);
 };
 
+// Sort items by price in the given currency. Items without a price, or in a
+// currency there's no exchange rate for, go last in their original order.
+export const sortItemsByPrice = (
+  items: WishlistItem[],
+  currency: string,
+  rates: ExchangeRates,
+  direction: 'ascending' | 'descending' = 'ascending'
+): WishlistItem[] => {
+  const priceOf = (item: WishlistItem) =>
+    item.price ? convertAmount(item.price, item.currency || currency, currency, rates) : null;
+  const priced = items
+    .map((item) => ({ item, price: priceOf(item) }))
+    .filter((entry): entry is { item: WishlistItem; price: number } => entry.price !== null)
+    .sort((a, b) => (direction === 'ascending' ? a.price - b.price : b.price - a.price))
+    .map(({ item }) => item);
+  return [...priced, ...items.filter((item) => priceOf(item) === null)];
+};
+
+// Whether the given user is allowed to see which items have been purchased.
+// Mirrors the claims rule in firestore.rules.
+export const canSeeClaims = (wishlist: Wishlist, userId: string): boolean => {
+  const surpriseMode = wishlist.surpriseMode ?? true;
+  return !surpriseMode || !isWishlistRecipient(wishlist, userId);
+};
+
+// Items used to be embedded in the wishlist document as an array, which made
+// every item change a read-modify-write of the whole list. Wishlists that
+// haven't been migrated yet still carry that array.
+type LegacyWishlistItem = Omit<WishlistItem, 'order'> & {
+  purchasedBy?: string;
+  purchasedAt?: Timestamp;
+};
+
+type WishlistDocument = Omit<Wishlist, 'id' | 'items'> & {
+  items?: LegacyWishlistItem[];
+};
+
+const itemsCollection = (wishlistId: string) =>
+  collection(db, 'wishlists', wishlistId, 'items');
+
+const toWishlistItem = (docSnap: DocumentSnapshot): WishlistItem =>
+  ({ id: docSnap.id, ...docSnap.data() }) as WishlistItem;
+
+// Give embedded items ordering keys that place them before the first
+// subcollection item. Legacy purchase fields are dropped: they predate
+// surprise mode and would otherwise stay readable by the recipient. They are
+// moved into claims by migrateEmbeddedItems.
+const legacyItemsToWishlistItems = (
+  items: LegacyWishlistItem[],
+  firstOrder: string | null
+): WishlistItem[] => {
+  const keys = generateNKeysBetween(null, firstOrder, items.length);
+  return items.map(({ purchasedBy, purchasedAt, ...item }, index) => ({
+    ...item,
+    order: keys[index],
+  }));
+};
+
+// Combine a wishlist document with its items, including embedded items that
+// haven't been migrated yet
+const toWishlist = (
+  wishlistId: string,
+  data: WishlistDocument,
+  items: WishlistItem[]
+): Wishlist => {
+  const { items: embeddedItems, ...wishlistData } = data;
+  const itemIds = new Set(items.map((item) => item.id));
+  const unmigratedItems = legacyItemsToWishlistItems(
+    (embeddedItems || []).filter((item) => !itemIds.has(item.id)),
+    items.length > 0 ? items[0].order : null
+  );
+  return {
+    id: wishlistId,
+    ...wishlistData,
+    items: [...unmigratedItems, ...items],
+    ...(embeddedItems ? { hasEmbeddedItems: true } : {}),
+  };
+};
+
+const getWishlistItems = async (wishlistId: string): Promise<WishlistItem[]> => {
+  const querySnapshot = await getDocs(
+    query(itemsCollection(wishlistId), orderBy('order'))
+  );
+  return querySnapshot.docs.map(toWishlistItem);
+};
+
+const subscribeToWishlistItems = (
+  wishlistId: string,
+  callback: (items: WishlistItem[]) => void
+): Unsubscribe => {
+  return onSnapshot(
+    query(itemsCollection(wishlistId), orderBy('order')),
+    (querySnapshot) => {
+      callback(querySnapshot.docs.map(toWishlistItem));
+    },
+    (error) => {
+      console.error('Error subscribing to wishlist items:', error);
+      callback([]);
+    }
+  );
+};
+
+// Managed recipients carry their manager on the wishlist, so the rules and
+// canSeeClaims don't need to look the recipient up
+const getRecipientManagedBy = async (recipient?: WishlistRecipient): Promise<string | null> => {
+  if (recipient?.type !== 'member') {
+    return null;
+  }
+  return (await getUserData(recipient.userId))?.managedBy ?? null;
+};
+
+// Wishlists are for their creator unless another recipient is given
 export const createWishlist = async (
   name: string,
   eventId: string,
-  createdBy: string
+  createdBy: string,
+  recipient?: WishlistRecipient
 ): Promise<string> => {
   try {
+    const recipientManagedBy = await getRecipientManagedBy(recipient);
     const wishlistData = {
       name,
       eventId,
       createdBy,
       createdAt: serverTimestamp(),
-      items: [],
+      surpriseMode: true,
+      ...(recipient?.type === 'member' && { recipientId: recipient.userId }),
+      ...(recipient?.type === 'named' && { recipientName: recipient.name }),
+      ...(recipientManagedBy && { recipientManagedBy }),
     };
 
     const docRef = await addDoc(collection(db, 'wishlists'), wishlistData);
@@ -87,7 +552,8 @@ export const getWishlist = async (
     const docSnap = await getDoc(docRef);
 
     if (docSnap.exists()) {
-      return { id: docSnap.id, ...docSnap.data() } as Wishlist;
+      const items = await getWishlistItems(wishlistId);
+      return toWishlist(docSnap.id, docSnap.data() as WishlistDocument, items);
     }
     return null;
   } catch (error: any) {
@@ -105,10 +571,12 @@ export const getWishlistsForEvent = async (
     );
     const querySnapshot = await getDocs(q);
 
-    return querySnapshot.docs.map((doc) => ({
-      id: doc.id,
-      ...doc.data(),
-    })) as Wishlist[];
+    return Promise.all(
+      querySnapshot.docs.filter((doc) => !doc.data().deletedAt).map(async (doc) => {
+        const items = await getWishlistItems(doc.id);
+        return toWishlist(doc.id, doc.data() as WishlistDocument, items);
+      })
+    );
   } catch (error: any) {
     throw new Error(error.message || 'Failed to get wishlists');
   }
@@ -116,103 +584,313 @@ export const getWishlistsForEvent = async (
 
 export const updateWishlist = async (
   wishlistId: string,
-  updates: Partial<{ name: string }>
+  updates: Partial<{ name: string; surpriseMode: boolean; recipient: WishlistRecipient }>
 ): Promise<void> => {
   try {
     const docRef = doc(db, 'wishlists', wishlistId);
-    await updateDoc(docRef, updates);
+    const { recipient, ...updateData }: Record<string, any> = updates;
+    // A wishlist has either a member or a named recipient, never both
+    if (recipient) {
+      updateData.recipientId = recipient.type === 'member' ? recipient.userId : deleteField();
+      updateData.recipientName = recipient.type === 'named' ? recipient.name : deleteField();
+      updateData.recipientManagedBy = (await getRecipientManagedBy(recipient)) ?? deleteField();
+    }
+    await updateDoc(docRef, updateData);
   } catch (error: any) {
     throw new Error(error.message || 'Failed to update wishlist');
   }
 };
 
+// Deleted wishlists are hidden from the event and can be restored by their
+// creator for UNDO_WINDOW_DAYS (lib/deletion.ts). Their items, claims and
+// pledges stay untouched until then.
 export const deleteWishlist = async (wishlistId: string): Promise<void> => {
   try {
-    await deleteDoc(doc(db, 'wishlists', wishlistId));
+    await updateDoc(doc(db, 'wishlists', wishlistId), {
+      deletedAt: serverTimestamp(),
+    });
   } catch (error: any) {
     throw new Error(error.message || 'Failed to delete wishlist');
   }
 };
 
+export const restoreWishlist = async (wishlistId: string): Promise<void> => {
+  try {
+    const wishlistSnap = await getDoc(doc(db, 'wishlists', wishlistId));
+    const deletedAt: Timestamp | undefined = wishlistSnap.data()?.deletedAt;
+    if (deletedAt && isPurgeDue(deletedAt.toDate())) {
+      throw new Error('This wishlist can no longer be restored');
+    }
+
+    await updateDoc(doc(db, 'wishlists', wishlistId), {
+      deletedAt: deleteField(),
+    });
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to restore wishlist');
+  }
+};
+
 export const addItemToWishlist = async (
   wishlistId: string,
-  item: Omit<WishlistItem, 'id'>
+  item: NewWishlistItem
 ): Promise<void> => {
   try {
-    const wishlistRef = doc(db, 'wishlists', wishlistId);
-    const wishlistSnap = await getDoc(wishlistRef);
-
-    if (!wishlistSnap.exists()) {
-      throw new Error('Wishlist not found');
-    }
+    // New items go to the end of the list
+    const lastItemSnapshot = await getDocs(
+      query(itemsCollection(wishlistId), orderBy('order', 'desc'), limit(1))
+    );
+    const lastOrder = lastItemSnapshot.empty
+      ? null
+      : (lastItemSnapshot.docs[0].data().order as string);
 
-    const wishlistData = wishlistSnap.data() as Wishlist;
     // Remove undefined values before creating the item
-    const cleanedItem = removeUndefined(item);
-    const newItem: WishlistItem = {
-      id: Date.now().toString(),
-      name: item.name,
-      ...cleanedItem,
-    };
-
-    const existingItems = wishlistData.items || [];
-    const cleanedExistingItems = cleanWishlistItems(existingItems);
-    
-    await updateDoc(wishlistRef, {
-      items: [...cleanedExistingItems, newItem],
+    await addDoc(itemsCollection(wishlistId), {
+      ...removeUndefined(item),
+      order: generateKeyBetween(lastOrder, null),
     });
+    syncIfPersonal(wishlistId);
   } catch (error: any) {
     throw new Error(error.message || 'Failed to add item');
   }
 };
 
+// Fields set to null are removed from the item
 export const updateWishlistItem = async (
   wishlistId: string,
   itemId: string,
-  updates: Partial<WishlistItem>
+  updates: { [K in keyof NewWishlistItem]?: NewWishlistItem[K] | null }
 ): Promise<void> => {
   try {
-    const wishlistRef = doc(db, 'wishlists', wishlistId);
-    const wishlistSnap = await getDoc(wishlistRef);
+    // Remove undefined values from updates
+    const cleanedUpdates: Record<string, any> = removeUndefined(updates);
+    for (const key of Object.keys(cleanedUpdates)) {
+      if (cleanedUpdates[key] === null) {
+        cleanedUpdates[key] = deleteField();
+      }
+    }
+    await updateDoc(doc(itemsCollection(wishlistId), itemId), cleanedUpdates);
+    syncIfPersonal(wishlistId);
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to update item');
+  }
+};
 
-    if (!wishlistSnap.exists()) {
-      throw new Error('Wishlist not found');
+// Uploaded photos are removed after the item they belong to. A photo that
+// fails to delete is only wasted storage, so that doesn't fail the call.
+const removeUploadedImage = (imagePath: string | undefined) => {
+  if (!imagePath) return;
+  deleteItemImage(imagePath).catch((error) => {
+    console.error('Error deleting item image:', error);
+  });
+};
+
+// Claims and pledges of items that are deleted or moved to another wishlist
+// go with them. Recipients in surprise mode can't read them, so they are
+// deleted by their known ids: the claim under the item's id and a pledge per
+// event member for group gifts. Personal wishlists have neither. Returns the
+// references of each item separately.
+const getItemClaimRefs = async (
+  wishlistId: string,
+  items: WishlistItem[]
+): Promise<DocumentReference[][]> => {
+  const wishlistSnap = await getDoc(doc(db, 'wishlists', wishlistId));
+  const eventId: string | null = wishlistSnap.data()?.eventId ?? null;
+  if (!eventId) {
+    return items.map(() => []);
+  }
+  const memberIds = items.some((item) => item.groupGift)
+    ? ((await getEvent(eventId))?.members ?? [])
+    : [];
+
+  return items.map((item) => [
+    claimRef(wishlistId, item.id),
+    ...(item.groupGift ? memberIds.map((memberId) => pledgeRef(wishlistId, item.id, memberId)) : []),
+  ]);
+};
+
+// For items already deleted. The rules check each item is gone before its
+// claims can be deleted, one batch per item keeps those lookups within a
+// request's limit.
+const deleteClaimsOfRemovedItems = async (wishlistId: string, items: WishlistItem[]): Promise<void> => {
+  if (items.length === 0) return;
+  const claimRefsByItem = await getItemClaimRefs(wishlistId, items);
+  await Promise.all(
+    claimRefsByItem
+      .filter((claimRefs) => claimRefs.length > 0)
+      .map((claimRefs) => {
+        const batch = writeBatch(db);
+        claimRefs.forEach((claimDocRef) => batch.delete(claimDocRef));
+        return batch.commit();
+      })
+  );
+};
+
+export const deleteWishlistItem = async (
+  wishlistId: string,
+  itemId: string
+): Promise<void> => {
+  try {
+    const ref = doc(itemsCollection(wishlistId), itemId);
+    const itemSnap = await getDoc(ref);
+    const batch = writeBatch(db);
+    batch.delete(ref);
+    if (itemSnap.exists()) {
+      const [claimRefs] = await getItemClaimRefs(wishlistId, [toWishlistItem(itemSnap)]);
+      claimRefs.forEach((claimDocRef) => batch.delete(claimDocRef));
     }
+    await batch.commit();
+    removeUploadedImage(itemSnap.data()?.imagePath);
+    syncIfPersonal(wishlistId);
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to delete item');
+  }
+};
 
-    const wishlistData = wishlistSnap.data() as Wishlist;
-    // Remove undefined values from updates
-    const cleanedUpdates = removeUndefined(updates);
-    const updatedItems = wishlistData.items.map((item) =>
-      item.id === itemId ? { ...item, ...cleanedUpdates } : item
-    );
+// Replace the item's image with an uploaded photo or a linked image URL, or
+// remove it when image is null
+export const setItemImage = async (
+  wishlistId: string,
+  itemId: string,
+  image: ItemImage | { imageUrl: string } | null
+): Promise<void> => {
+  try {
+    const ref = doc(itemsCollection(wishlistId), itemId);
+    const itemSnap = await getDoc(ref);
+    if (!itemSnap.exists()) {
+      throw new Error('Item not found');
+    }
 
-    // Clean all items to ensure no undefined values
-    const cleanedItems = cleanWishlistItems(updatedItems);
+    await updateDoc(ref, {
+      imageUrl: image?.imageUrl ?? deleteField(),
+      thumbnailUrl: (image && 'thumbnailUrl' in image) ? image.thumbnailUrl : deleteField(),
+      imagePath: (image && 'imagePath' in image) ? image.imagePath : deleteField(),
+    });
+    removeUploadedImage(itemSnap.data().imagePath);
+    syncIfPersonal(wishlistId);
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to update item image');
+  }
+};
+
+// Switch an item between a single gift and a group gift. Only allowed while
+// nobody has claimed or pledged, the claim and every member's pledge are read
+// in the transaction since the caller may not see all of them (e.g. only
+// their own share of an item that wants more than one).
+export const updateItemGroupGift = async (
+  wishlistId: string,
+  itemId: string,
+  groupGift: boolean
+): Promise<void> => {
+  try {
+    const wishlistSnap = await getDoc(doc(db, 'wishlists', wishlistId));
+    const eventId: string | null = wishlistSnap.data()?.eventId ?? null;
+    const memberIds = eventId ? ((await getEvent(eventId))?.members ?? []) : [];
 
-    await updateDoc(wishlistRef, { items: cleanedItems });
+    await runTransaction(db, async (transaction) => {
+      const itemRef = doc(itemsCollection(wishlistId), itemId);
+      const itemSnap = await transaction.get(itemRef);
+      if (!itemSnap.exists()) {
+        throw new Error('Item not found');
+      }
+      const [claimSnap, ...pledgeSnaps] = await Promise.all([
+        transaction.get(claimRef(wishlistId, itemId)),
+        ...memberIds.map((memberId) => transaction.get(pledgeRef(wishlistId, itemId, memberId))),
+      ]);
+      if (claimSnap.exists() || pledgeSnaps.some((pledgeSnap) => pledgeSnap.exists())) {
+        throw new Error('This item has already been claimed or pledged to');
+      }
+
+      transaction.update(itemRef, { groupGift });
+    });
+    syncIfPersonal(wishlistId);
   } catch (error: any) {
     throw new Error(error.message || 'Failed to update item');
   }
 };
 
-export const deleteWishlistItem = async (
+// Reserve or buy an item. Runs in a transaction so that when two members
+// claim the same item at once, the second one gets an ItemAlreadyClaimedError
+// instead of silently overwriting the first claim. Claiming an item the user
+// already holds moves it to the given stage.
+// Items that want more than one take a share of the given quantity instead,
+// failing with an ItemQuantityUnavailableError if that's more than is left.
+export const claimItem = async (
   wishlistId: string,
-  itemId: string
+  itemId: string,
+  claimedBy: string,
+  status: ClaimStatus = 'reserved',
+  quantity: number = 1
 ): Promise<void> => {
   try {
-    const wishlistRef = doc(db, 'wishlists', wishlistId);
-    const wishlistSnap = await getDoc(wishlistRef);
-
-    if (!wishlistSnap.exists()) {
-      throw new Error('Wishlist not found');
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new Error('Quantity must be a whole number of at least 1');
     }
 
-    const wishlistData = wishlistSnap.data() as Wishlist;
-    const updatedItems = wishlistData.items.filter((item) => item.id !== itemId);
+    const ref = claimRef(wishlistId, itemId);
 
-    await updateDoc(wishlistRef, { items: updatedItems });
+    await runTransaction(db, async (transaction) => {
+      const itemSnap = await transaction.get(doc(itemsCollection(wishlistId), itemId));
+      const claimSnap = await transaction.get(ref);
+      const existingClaims = claimSnap.exists()
+        ? toItemClaims(claimSnap.data() as ClaimDocument)
+        : [];
+      const ownClaim = existingClaims.find((claim) => claim.claimedBy === claimedBy) || null;
+      const item = itemSnap.exists() ? toWishlistItem(itemSnap) : null;
+
+      // Group gifts are funded with pledges, nobody claims them on their own
+      if (item?.groupGift) {
+        throw new Error('This item is a group gift, pledge towards it instead');
+      }
+
+      if (item && allowsMultipleClaims(item)) {
+        if (!item.unlimited) {
+          const claimedByOthers = existingClaims
+            .filter((claim) => claim.claimedBy !== claimedBy)
+            .reduce((total, claim) => total + claim.quantity, 0);
+          const available = (item.quantity ?? 1) - claimedByOthers;
+          if (quantity > available) {
+            throw new ItemQuantityUnavailableError(Math.max(available, 0));
+          }
+        }
+
+        transaction.set(
+          ref,
+          {
+            itemId,
+            shares: {
+              [claimedBy]: { quantity, ...claimStageUpdate(ownClaim, status) },
+            },
+          },
+          { merge: true }
+        );
+        return;
+      }
+
+      const otherClaim = existingClaims.find((claim) => claim.claimedBy !== claimedBy);
+      if (otherClaim) {
+        throw new ItemAlreadyClaimedError(otherClaim.claimedBy);
+      }
+
+      transaction.set(
+        ref,
+        {
+          itemId,
+          claimedBy,
+          ...claimStageUpdate(ownClaim, status),
+          purchasedBy: deleteField(),
+        },
+        { merge: true }
+      );
+    });
   } catch (error: any) {
-    throw new Error(error.message || 'Failed to delete item');
+    // Keep the typed errors so callers can tell who got there first
+    if (
+      error instanceof ItemAlreadyClaimedError ||
+      error instanceof ItemQuantityUnavailableError
+    ) {
+      throw error;
+    }
+    throw new Error(error.message || 'Failed to claim item');
   }
 };
 
@@ -221,47 +899,628 @@ export const markItemAsPurchased = async (
   itemId: string,
   purchasedBy: string
 ): Promise<void> => {
-  await updateWishlistItem(wishlistId, itemId, {
-    purchasedBy,
-    purchasedAt: Timestamp.now(),
-  });
+  await claimItem(wishlistId, itemId, purchasedBy, 'purchased');
 };
 
-export const unmarkItemAsPurchased = async (
+// Prefix the fields of an update so it applies to a member's share
+const shareUpdate = (userId: string, updates: Record<string, unknown>) =>
+  Object.fromEntries(
+    Object.entries(updates).map(([field, value]) => [`shares.${userId}.${field}`, value])
+  );
+
+// Move the user's own claim to another stage, e.g. mark it delivered or go
+// back from purchased to reserved
+export const updateClaimStatus = async (
   wishlistId: string,
-  itemId: string
+  itemId: string,
+  status: ClaimStatus,
+  userId: string
 ): Promise<void> => {
   try {
-    const wishlistRef = doc(db, 'wishlists', wishlistId);
-    const wishlistSnap = await getDoc(wishlistRef);
+    const ref = claimRef(wishlistId, itemId);
 
-    if (!wishlistSnap.exists()) {
-      throw new Error('Wishlist not found');
+    await runTransaction(db, async (transaction) => {
+      const claimSnap = await transaction.get(ref);
+      const claim = claimSnap.exists()
+        ? toItemClaims(claimSnap.data() as ClaimDocument).find(
+            (itemClaim) => itemClaim.claimedBy === userId
+          )
+        : undefined;
+      if (!claim) {
+        throw new Error('Item is not reserved');
+      }
+
+      const isShare = !!(claimSnap.data() as ClaimDocument).shares?.[userId];
+      const stageUpdate = claimStageUpdate(claim, status);
+      transaction.update(ref, isShare ? shareUpdate(userId, stageUpdate) : stageUpdate);
+    });
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to update item status');
+  }
+};
+
+// Pledge an amount towards a group gift, replacing the member's previous
+// pledge for the item. Group gifts can't also be claimed by a single member.
+export const pledgeToItem = async (
+  wishlistId: string,
+  itemId: string,
+  pledgedBy: string,
+  amount: number
+): Promise<void> => {
+  try {
+    if (!(amount > 0)) {
+      throw new Error('Pledge amount must be greater than zero');
     }
 
-    const wishlistData = wishlistSnap.data() as Wishlist;
-    const updatedItems = wishlistData.items.map((item) => {
-      if (item.id === itemId) {
-        // Create a new item object without purchasedBy and purchasedAt
-        const { purchasedBy, purchasedAt, ...rest } = item;
-        return rest;
+    await runTransaction(db, async (transaction) => {
+      const claimSnap = await transaction.get(claimRef(wishlistId, itemId));
+      if (claimSnap.exists()) {
+        const [claim] = toItemClaims(claimSnap.data() as ClaimDocument);
+        throw new ItemAlreadyClaimedError(claim?.claimedBy ?? '');
       }
-      return item;
+
+      transaction.set(pledgeRef(wishlistId, itemId, pledgedBy), {
+        itemId,
+        pledgedBy,
+        amount,
+        pledgedAt: Timestamp.now(),
+      });
     });
+  } catch (error: any) {
+    if (error instanceof ItemAlreadyClaimedError) {
+      throw error;
+    }
+    throw new Error(error.message || 'Failed to pledge');
+  }
+};
+
+export const withdrawPledge = async (
+  wishlistId: string,
+  itemId: string,
+  userId: string
+): Promise<void> => {
+  try {
+    await deleteDoc(pledgeRef(wishlistId, itemId, userId));
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to withdraw pledge');
+  }
+};
+
+// Release the user's claim. For items claimed by several members only the
+// user's share is removed.
+export const unreserveItem = async (
+  wishlistId: string,
+  itemId: string,
+  userId: string
+): Promise<void> => {
+  try {
+    const ref = claimRef(wishlistId, itemId);
 
-    // Clean all items to ensure no undefined values
-    const cleanedItems = cleanWishlistItems(updatedItems);
+    await runTransaction(db, async (transaction) => {
+      const claimSnap = await transaction.get(ref);
+      if (!claimSnap.exists()) {
+        return;
+      }
 
-    await updateDoc(wishlistRef, { items: cleanedItems });
+      const data = claimSnap.data() as ClaimDocument;
+      const isShare = !!data.shares?.[userId];
+      const otherClaims = toItemClaims(data).filter((claim) => claim.claimedBy !== userId);
+      if (isShare && otherClaims.length > 0) {
+        transaction.update(ref, { [`shares.${userId}`]: deleteField() });
+      } else {
+        transaction.delete(ref);
+      }
+    });
   } catch (error: any) {
-    throw new Error(error.message || 'Failed to unmark item as purchased');
+    throw new Error(error.message || 'Failed to unreserve item');
   }
 };
 
-export const reorderWishlistItems = async (
+// Hand a claim over to another member, e.g. when someone else ends up buying
+// the gift. Only the current holder can transfer it.
+export const transferClaim = async (
   wishlistId: string,
-  reorderedItems: WishlistItem[]
+  itemId: string,
+  fromUserId: string,
+  toUserId: string
+): Promise<void> => {
+  try {
+    const ref = claimRef(wishlistId, itemId);
+
+    await runTransaction(db, async (transaction) => {
+      const claimSnap = await transaction.get(ref);
+      if (!claimSnap.exists()) {
+        throw new Error('Item is not reserved');
+      }
+
+      const data = claimSnap.data() as ClaimDocument;
+      const share = data.shares?.[fromUserId];
+      if (share) {
+        // The new holder can't already have a share of their own
+        if (toItemClaims(data).some((claim) => claim.claimedBy === toUserId)) {
+          throw new ItemAlreadyClaimedError(toUserId);
+        }
+        transaction.update(ref, {
+          [`shares.${fromUserId}`]: deleteField(),
+          [`shares.${toUserId}`]: share,
+        });
+        return;
+      }
+
+      const claim = toItemClaim(data);
+      if (claim.claimedBy !== fromUserId) {
+        throw new ItemAlreadyClaimedError(claim.claimedBy);
+      }
+
+      transaction.update(ref, {
+        claimedBy: toUserId,
+        purchasedBy: deleteField(),
+      });
+    });
+  } catch (error: any) {
+    if (error instanceof ItemAlreadyClaimedError) {
+      throw error;
+    }
+    throw new Error(error.message || 'Failed to transfer item');
+  }
+};
+
+// Move an item to where it was dropped in the list as shown, which may
+// group claimed items into sections or leave items out (search). Only the
+// moved item gets a new ordering key: right after the item shown above it in
+// the wishlist's own order, or right before the item shown below it when it
+// was dropped at the top. Rewriting the keys of items in between would let the
+// recipient tell which items sit in the claimed sections.
+export const moveWishlistItem = async (
+  wishlistId: string,
+  items: WishlistItem[],
+  itemId: string,
+  previousItemId: string | null,
+  nextItemId: string | null
+): Promise<void> => {
+  try {
+    const otherKeys = items
+      .filter((item) => item.id !== itemId)
+      .map((item) => item.order)
+      .sort();
+    const keyOf = (id: string | null) => items.find((item) => item.id === id)?.order ?? null;
+    const previousKey = keyOf(previousItemId);
+    const nextKey = keyOf(nextItemId);
+
+    const order = previousKey !== null
+      ? generateKeyBetween(previousKey, otherKeys.find((key) => key > previousKey) ?? null)
+      : generateKeyBetween(
+          nextKey !== null ? ([...otherKeys].reverse().find((key) => key < nextKey) ?? null) : null,
+          nextKey
+        );
+
+    await updateDoc(doc(itemsCollection(wishlistId), itemId), { order });
+    syncIfPersonal(wishlistId);
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to move item');
+  }
+};
+
+// Wishlists the user can add items to: their personal wishlist and the
+// wishlists of every event they can contribute to (not view only or archived).
+// Live-linked wishlists are left out, their items always come from the
+// personal wishlist.
+export const getItemTargetsForUser = async (userId: string): Promise<ItemTarget[]> => {
+  try {
+    const personalSnap = await getDoc(doc(db, 'wishlists', getPersonalWishlistId(userId)));
+    const personalTargets: ItemTarget[] = personalSnap.exists()
+      ? [{ wishlistId: personalSnap.id, name: personalSnap.data().name, eventId: null, eventName: null }]
+      : [];
+
+    const events = (await getEventsForUser(userId)).filter((event) =>
+      !event.deletedAt && !isEventArchived(event) && canContributeToEvent(event, userId)
+    );
+    const eventTargets = await Promise.all(
+      events.map(async (event) => {
+        const querySnapshot = await getDocs(
+          query(collection(db, 'wishlists'), where('eventId', '==', event.id))
+        );
+        return querySnapshot.docs
+          .filter((doc) => !doc.data().sourceWishlistId && !doc.data().deletedAt)
+          .map((doc) => ({
+            wishlistId: doc.id,
+            name: doc.data().name as string,
+            eventId: event.id,
+            eventName: event.name,
+          }));
+      })
+    );
+
+    return [...personalTargets, ...eventTargets.flat()];
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to load wishlists');
+  }
+};
+
+// Items copied to another wishlist get their own copy of an uploaded photo,
+// deleting the original item deletes its photo. Linked images (e.g. from a
+// shop's link preview) aren't ours to delete and are kept as they are.
+const getCopiedImage = async (
+  wishlistId: string,
+  item: WishlistItem
+): Promise<Partial<ItemImage>> =>
+  item.imagePath ? copyItemImage(wishlistId, item.imagePath) : {};
+
+// Copy or move items to the end of another wishlist. The items get new ids
+// there, so claims and pledges don't follow them: copies leave them with the
+// original item, moved items have theirs deleted. Moved items keep their
+// uploaded photo, copies get a copy of it.
+const transferItems = async (
+  sourceWishlistId: string,
+  itemIds: string[],
+  targetWishlistId: string,
+  move: boolean
+): Promise<void> => {
+  const targetSnap = await getDoc(doc(db, 'wishlists', targetWishlistId));
+  if (!targetSnap.exists()) {
+    throw new Error('Wishlist not found');
+  }
+  if (targetSnap.data().sourceWishlistId) {
+    throw new Error('Items of a synced wishlist can only be changed on the personal wishlist');
+  }
+
+  const selectedIds = new Set(itemIds);
+  const items = (await getWishlistItems(sourceWishlistId)).filter((item) =>
+    selectedIds.has(item.id)
+  );
+  if (items.length === 0) {
+    return;
+  }
+
+  const lastItemSnapshot = await getDocs(
+    query(itemsCollection(targetWishlistId), orderBy('order', 'desc'), limit(1))
+  );
+  const lastOrder = lastItemSnapshot.empty
+    ? null
+    : (lastItemSnapshot.docs[0].data().order as string);
+  const keys = generateNKeysBetween(lastOrder, null, items.length);
+  const images = move
+    ? items.map(() => ({}))
+    : await Promise.all(items.map((item) => getCopiedImage(targetWishlistId, item)));
+
+  const batch = writeBatch(db);
+  items.forEach(({ id, order, sourceItemId, imagePath, ...item }, index) => {
+    batch.set(doc(itemsCollection(targetWishlistId)), {
+      ...item,
+      ...(move && imagePath && { imagePath }),
+      ...images[index],
+      order: keys[index],
+    });
+    if (move) {
+      batch.delete(doc(itemsCollection(sourceWishlistId), id));
+    }
+  });
+  await batch.commit();
+
+  if (move) {
+    await deleteClaimsOfRemovedItems(sourceWishlistId, items);
+  }
+
+  syncIfPersonal(targetWishlistId);
+  if (move) {
+    syncIfPersonal(sourceWishlistId);
+  }
+};
+
+export const copyItemsToWishlist = async (
+  sourceWishlistId: string,
+  itemIds: string[],
+  targetWishlistId: string
+): Promise<void> => {
+  try {
+    await transferItems(sourceWishlistId, itemIds, targetWishlistId, false);
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to copy items');
+  }
+};
+
+export const moveItemsToWishlist = async (
+  sourceWishlistId: string,
+  itemIds: string[],
+  targetWishlistId: string
 ): Promise<void> => {
+  try {
+    await transferItems(sourceWishlistId, itemIds, targetWishlistId, true);
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to move items');
+  }
+};
+
+// The part of an item that is still wanted after this occurrence of the
+// event, or null when it has been bought in full
+const getRemainingItem = (
+  item: WishlistItem,
+  claims: ItemClaim[],
+  pledges: ItemPledge[]
+): WishlistItem | null => {
+  if (item.groupGift) {
+    return getFundingProgress(item, pledges).isFullyFunded ? null : item;
+  }
+  const { requested, purchased } = getItemFulfilment(item, claims);
+  if (requested === null) {
+    return item;
+  }
+  return purchased >= requested ? null : { ...item, quantity: requested - purchased };
+};
+
+// Copy the wishlists of an event into its next occurrence, with the items
+// that haven't been bought yet. Wishlists whose claims are hidden from the
+// user are copied whole, leaving items out would give away what was bought.
+// Live links to personal wishlists become plain copies, the owner can share
+// their personal wishlist again. Running it again after a failure only copies
+// what's missing: each copy records the wishlist it came from, and its items
+// are written in a single batch.
+export const carryOverWishlists = async (
+  fromEventId: string,
+  toEventId: string,
+  userId: string
+): Promise<void> => {
+  try {
+    const [wishlists, carriedSnapshot] = await Promise.all([
+      getWishlistsForEvent(fromEventId),
+      getDocs(query(collection(db, 'wishlists'), where('eventId', '==', toEventId))),
+    ]);
+    const carriedIds = new Map(
+      carriedSnapshot.docs
+        .filter((carriedDoc) => carriedDoc.data().carriedFrom)
+        .map((carriedDoc) => [carriedDoc.data().carriedFrom as string, carriedDoc.id])
+    );
+
+    await Promise.all(
+      wishlists.map(async (wishlist) => {
+        const carriedId = carriedIds.get(wishlist.id);
+        if (carriedId) {
+          const carriedItems = await getDocs(query(itemsCollection(carriedId), limit(1)));
+          if (!carriedItems.empty) {
+            return;
+          }
+        }
+
+        let items = wishlist.items;
+        if (canSeeClaims(wishlist, userId)) {
+          const [claims, pledges] = await Promise.all([
+            getClaimsForWishlist(wishlist.id),
+            getPledgesForWishlist(wishlist.id),
+          ]);
+          items = items.flatMap((item) => getRemainingItem(item, claims, pledges) ?? []);
+        }
+
+        const wishlistRef = carriedId
+          ? doc(db, 'wishlists', carriedId)
+          : await addDoc(collection(db, 'wishlists'), removeUndefined({
+              name: wishlist.name,
+              eventId: toEventId,
+              createdBy: wishlist.createdBy,
+              createdAt: serverTimestamp(),
+              surpriseMode: wishlist.surpriseMode ?? true,
+              recipientId: wishlist.recipientId,
+              recipientName: wishlist.recipientName,
+              recipientManagedBy: wishlist.recipientManagedBy,
+              carriedFrom: wishlist.id,
+            }));
+
+        // Last year's items keep their uploaded photos, the new ones get copies
+        const images = await Promise.all(items.map((item) => getCopiedImage(wishlistRef.id, item)));
+        const batch = writeBatch(db);
+        items.forEach(({ id, sourceItemId, imagePath, ...item }, index) => {
+          batch.set(doc(itemsCollection(wishlistRef.id)), { ...item, ...images[index] });
+        });
+        await batch.commit();
+      })
+    );
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to carry over wishlists');
+  }
+};
+
+// Create the user's personal wishlist if they don't have one yet and return its id
+export const ensurePersonalWishlist = async (userId: string): Promise<string> => {
+  try {
+    const wishlistId = getPersonalWishlistId(userId);
+    const wishlistRef = doc(db, 'wishlists', wishlistId);
+    const wishlistSnap = await getDoc(wishlistRef);
+    if (!wishlistSnap.exists()) {
+      await setDoc(wishlistRef, {
+        name: 'My Wishlist',
+        eventId: null,
+        createdBy: userId,
+        createdAt: serverTimestamp(),
+        linkedWishlistIds: [],
+      });
+    }
+    return wishlistId;
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to load personal wishlist');
+  }
+};
+
+// The copy of a personal item that goes into an event wishlist. Uploaded
+// photos stay with the personal item: live copies link to them and follow
+// the personal item when it changes or goes, snapshots get their own copy
+// (see getCopiedImage).
+const toSharedItem = ({ id, imagePath, ...item }: WishlistItem, live: boolean) => ({
+  ...item,
+  ...(live && { sourceItemId: id }),
+});
+
+// Share a personal wishlist into an event. Live links keep mirroring the
+// personal list's items, snapshots are a one-off copy that can then be
+// edited in the event. Either way claims are only stored on the new list.
+export const sharePersonalWishlist = async (
+  personalWishlistId: string,
+  eventId: string,
+  userId: string,
+  mode: ShareMode,
+  name?: string
+): Promise<string> => {
+  try {
+    const personalWishlist = await getWishlist(personalWishlistId);
+    if (!personalWishlist || !isPersonalWishlist(personalWishlist)) {
+      throw new Error('Personal wishlist not found');
+    }
+
+    const live = mode === 'live';
+    const wishlistRef = await addDoc(collection(db, 'wishlists'), {
+      name: name || personalWishlist.name,
+      eventId,
+      createdBy: userId,
+      createdAt: serverTimestamp(),
+      surpriseMode: true,
+      ...(live && { sourceWishlistId: personalWishlistId }),
+    });
+
+    const images = live
+      ? personalWishlist.items.map(() => ({}))
+      : await Promise.all(personalWishlist.items.map((item) => getCopiedImage(wishlistRef.id, item)));
+    const batch = writeBatch(db);
+    personalWishlist.items.forEach((item, index) => {
+      batch.set(doc(itemsCollection(wishlistRef.id)), { ...toSharedItem(item, live), ...images[index] });
+    });
+    if (live) {
+      batch.update(doc(db, 'wishlists', personalWishlistId), {
+        linkedWishlistIds: arrayUnion(wishlistRef.id),
+      });
+    }
+    await batch.commit();
+
+    return wishlistRef.id;
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to share wishlist');
+  }
+};
+
+// Turn a live link into a snapshot: the items stay, but stop following the
+// personal wishlist. Items showing a photo uploaded to the personal wishlist
+// get their own copy of it.
+export const unlinkWishlist = async (wishlistId: string): Promise<void> => {
+  try {
+    const wishlistRef = doc(db, 'wishlists', wishlistId);
+    const wishlistSnap = await getDoc(wishlistRef);
+    const sourceWishlistId = wishlistSnap.data()?.sourceWishlistId;
+    if (!sourceWishlistId) {
+      return;
+    }
+
+    const [items, sourceItems] = await Promise.all([
+      getWishlistItems(wishlistId),
+      getWishlistItems(sourceWishlistId),
+    ]);
+    const sourceItemsById = new Map(sourceItems.map((item) => [item.id, item]));
+    const images = await Promise.all(
+      items.map((item) => {
+        const sourceItem = item.sourceItemId ? sourceItemsById.get(item.sourceItemId) : undefined;
+        return sourceItem && sourceItem.imageUrl === item.imageUrl
+          ? getCopiedImage(wishlistId, sourceItem)
+          : {};
+      })
+    );
+    const batch = writeBatch(db);
+    batch.update(wishlistRef, { sourceWishlistId: deleteField() });
+    items.forEach((item, index) => {
+      batch.update(doc(itemsCollection(wishlistId), item.id), {
+        sourceItemId: deleteField(),
+        ...images[index],
+      });
+    });
+    batch.update(doc(db, 'wishlists', sourceWishlistId), {
+      linkedWishlistIds: arrayRemove(wishlistId),
+    });
+    await batch.commit();
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to unlink wishlist');
+  }
+};
+
+const hasSameFields = (a: Record<string, any>, b: Record<string, any>): boolean => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).every((key) => a[key] === b[key]);
+};
+
+// Mirror the items of a personal wishlist into the event wishlists linked
+// to it. Items are matched by sourceItemId, so claims on the linked items
+// survive edits to the personal ones.
+export const syncLinkedWishlists = async (personalWishlistId: string): Promise<void> => {
+  try {
+    const personalSnap = await getDoc(doc(db, 'wishlists', personalWishlistId));
+    const linkedWishlistIds: string[] = personalSnap.data()?.linkedWishlistIds || [];
+    if (linkedWishlistIds.length === 0) {
+      return;
+    }
+    const sourceItems = await getWishlistItems(personalWishlistId);
+
+    // One linked wishlist failing (e.g. the user left its event or it has
+    // been archived) shouldn't stop the others from updating
+    const results = await Promise.allSettled(
+      linkedWishlistIds.map(async (wishlistId) => {
+        const linkedItems = await getWishlistItems(wishlistId);
+        const linkedBySource = new Map(
+          linkedItems
+            .filter((item) => item.sourceItemId)
+            .map((item) => [item.sourceItemId!, item])
+        );
+        const batch = writeBatch(db);
+        let hasChanges = false;
+
+        sourceItems.forEach((sourceItem) => {
+          const sharedItem = toSharedItem(sourceItem, true);
+          const linkedItem = linkedBySource.get(sourceItem.id);
+          if (!linkedItem) {
+            batch.set(doc(itemsCollection(wishlistId)), sharedItem);
+            hasChanges = true;
+          } else {
+            const { id, ...linkedFields } = linkedItem;
+            if (!hasSameFields(linkedFields, sharedItem)) {
+              batch.set(doc(itemsCollection(wishlistId), id), sharedItem);
+              hasChanges = true;
+            }
+          }
+        });
+
+        const sourceItemIds = new Set(sourceItems.map((item) => item.id));
+        const removedItems = linkedItems.filter(
+          (item) => item.sourceItemId && !sourceItemIds.has(item.sourceItemId)
+        );
+        removedItems.forEach((item) => {
+          batch.delete(doc(itemsCollection(wishlistId), item.id));
+          hasChanges = true;
+        });
+
+        if (hasChanges) {
+          await batch.commit();
+          await deleteClaimsOfRemovedItems(wishlistId, removedItems);
+        }
+      })
+    );
+    results.forEach((result) => {
+      if (result.status === 'rejected') {
+        console.error('Error syncing linked wishlist:', result.reason);
+      }
+    });
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to sync linked wishlists');
+  }
+};
+
+// Item changes on a personal wishlist are passed on to its linked wishlists.
+// The change itself already succeeded, so a failed sync is only logged.
+const syncIfPersonal = (wishlistId: string) => {
+  if (!wishlistId.startsWith(PERSONAL_WISHLIST_PREFIX)) return;
+  syncLinkedWishlists(wishlistId).catch((error) => {
+    console.error('Error syncing linked wishlists:', error);
+  });
+};
+
+// One-time migration of a wishlist's embedded items array into the items
+// subcollection. Item ids are kept so existing claims still match, and items
+// bought before claims existed get a purchased claim in the same batch.
+// Recipients who can't see claims leave wishlists with such purchases to the
+// other members. Does nothing for wishlists that have already been migrated.
+export const migrateEmbeddedItems = async (wishlistId: string, userId: string): Promise<void> => {
   try {
     const wishlistRef = doc(db, 'wishlists', wishlistId);
     const wishlistSnap = await getDoc(wishlistRef);
@@ -270,12 +1529,52 @@ export const reorderWishlistItems = async (
       throw new Error('Wishlist not found');
     }
 
-    // Clean all items to ensure no undefined values
-    const cleanedItems = cleanWishlistItems(reorderedItems);
+    const wishlistData = wishlistSnap.data() as WishlistDocument;
+    if (!wishlistData.items) {
+      return;
+    }
+
+    const purchasedItems = wishlistData.items.filter((item) => item.purchasedBy);
+    const wishlist = toWishlist(wishlistId, wishlistData, []);
+    if (purchasedItems.length > 0 && !canSeeClaims(wishlist, userId)) {
+      return;
+    }
+    // Items claimed since then already have a claim of their own
+    const claimedItemIds = purchasedItems.length > 0
+      ? new Set((await getDocs(collection(db, 'wishlists', wishlistId, 'claims'))).docs.map((doc) => doc.id))
+      : new Set<string>();
 
-    await updateDoc(wishlistRef, { items: cleanedItems });
+    const firstItemSnapshot = await getDocs(
+      query(itemsCollection(wishlistId), orderBy('order'), limit(1))
+    );
+    const firstOrder = firstItemSnapshot.empty
+      ? null
+      : (firstItemSnapshot.docs[0].data().order as string);
+
+    const batch = writeBatch(db);
+    legacyItemsToWishlistItems(wishlistData.items, firstOrder).forEach(
+      ({ id, ...item }) => {
+        batch.set(doc(itemsCollection(wishlistId), id), removeUndefined(item));
+      }
+    );
+    purchasedItems
+      .filter((item) => !claimedItemIds.has(item.id))
+      .forEach((item) => {
+        const purchasedAt = item.purchasedAt ?? Timestamp.now();
+        batch.set(claimRef(wishlistId, item.id), {
+          itemId: item.id,
+          claimedBy: item.purchasedBy,
+          status: 'purchased',
+          quantity: 1,
+          reservedAt: purchasedAt,
+          purchasedAt,
+        });
+      });
+    batch.update(wishlistRef, { items: deleteField() });
+
+    await batch.commit();
   } catch (error: any) {
-    throw new Error(error.message || 'Failed to reorder items');
+    throw new Error(error.message || 'Failed to migrate wishlist items');
   }
 };
 
@@ -288,13 +1587,87 @@ export const subscribeToWishlistsForEvent = (
     where('eventId', '==', eventId)
   );
 
-  return onSnapshot(q, (querySnapshot) => {
-    const wishlists = querySnapshot.docs.map((doc) => ({
-      id: doc.id,
-      ...doc.data(),
-    })) as Wishlist[];
-    callback(wishlists);
+  // Each wishlist's items come from a separate listener
+  let wishlistDocs: QueryDocumentSnapshot[] = [];
+  const itemsByWishlist = new Map<string, WishlistItem[]>();
+  const itemUnsubscribes = new Map<string, Unsubscribe>();
+
+  const emit = () => {
+    // Wait until the items of every wishlist have loaded
+    if (!wishlistDocs.every((doc) => itemsByWishlist.has(doc.id))) {
+      return;
+    }
+    callback(
+      wishlistDocs.map((doc) =>
+        toWishlist(
+          doc.id,
+          doc.data() as WishlistDocument,
+          itemsByWishlist.get(doc.id)!
+        )
+      )
+    );
+  };
+
+  // Deleted wishlists are left out, see subscribeToDeletedWishlistsForEvent
+  const unsubscribeWishlists = onSnapshot(q, (querySnapshot) => {
+    wishlistDocs = querySnapshot.docs.filter((doc) => !doc.data().deletedAt);
+    const wishlistIds = new Set(wishlistDocs.map((doc) => doc.id));
+
+    // Stop listening to the items of wishlists that are gone
+    for (const [wishlistId, unsubscribe] of itemUnsubscribes) {
+      if (!wishlistIds.has(wishlistId)) {
+        unsubscribe();
+        itemUnsubscribes.delete(wishlistId);
+        itemsByWishlist.delete(wishlistId);
+      }
+    }
+
+    for (const wishlistId of wishlistIds) {
+      if (!itemUnsubscribes.has(wishlistId)) {
+        itemUnsubscribes.set(
+          wishlistId,
+          subscribeToWishlistItems(wishlistId, (items) => {
+            itemsByWishlist.set(wishlistId, items);
+            emit();
+          })
+        );
+      }
+    }
+
+    emit();
   });
+
+  return () => {
+    unsubscribeWishlists();
+    itemUnsubscribes.forEach((unsubscribe) => unsubscribe());
+  };
+};
+
+// Deleted wishlists of an event that haven't been purged yet, without their
+// items
+export const subscribeToDeletedWishlistsForEvent = (
+  eventId: string,
+  callback: (wishlists: Wishlist[]) => void
+): Unsubscribe => {
+  const q = query(
+    collection(db, 'wishlists'),
+    where('eventId', '==', eventId)
+  );
+
+  return onSnapshot(
+    q,
+    (querySnapshot) => {
+      callback(
+        querySnapshot.docs
+          .filter((doc) => !!doc.data().deletedAt)
+          .map((doc) => toWishlist(doc.id, doc.data() as WishlistDocument, []))
+      );
+    },
+    (error) => {
+      console.error('Error subscribing to deleted wishlists:', error);
+      callback([]);
+    }
+  );
 };
 
 export const subscribeToWishlist = (
@@ -302,13 +1675,103 @@ export const subscribeToWishlist = (
   callback: (wishlist: Wishlist | null) => void
 ): Unsubscribe => {
   const docRef = doc(db, 'wishlists', wishlistId);
+  let wishlistSnap: DocumentSnapshot | null = null;
+  let items: WishlistItem[] | null = null;
 
-  return onSnapshot(docRef, (docSnap) => {
-    if (docSnap.exists()) {
-      callback({ id: docSnap.id, ...docSnap.data() } as Wishlist);
+  // Only report once both the wishlist and its items have loaded
+  const emit = () => {
+    if (!wishlistSnap || items === null) {
+      return;
+    }
+    if (wishlistSnap.exists()) {
+      callback(
+        toWishlist(wishlistSnap.id, wishlistSnap.data() as WishlistDocument, items)
+      );
     } else {
       callback(null);
     }
+  };
+
+  const unsubscribeWishlist = onSnapshot(docRef, (docSnap) => {
+    wishlistSnap = docSnap;
+    emit();
+  });
+  const unsubscribeItems = subscribeToWishlistItems(wishlistId, (itemsData) => {
+    items = itemsData;
+    emit();
   });
+
+  return () => {
+    unsubscribeWishlist();
+    unsubscribeItems();
+  };
+};
+
+export const subscribeToClaimsForWishlist = (
+  wishlistId: string,
+  callback: (claims: ItemClaim[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  return onSnapshot(
+    collection(db, 'wishlists', wishlistId, 'claims'),
+    (querySnapshot) => {
+      const claims = querySnapshot.docs.flatMap((doc) =>
+        toItemClaims(doc.data() as ClaimDocument)
+      );
+      callback(claims);
+    },
+    (error) => {
+      console.error('Error subscribing to claims:', error);
+      if (onError) {
+        onError(error as Error);
+      } else {
+        callback([]);
+      }
+    }
+  );
 };
 
+export const subscribeToPledgesForWishlist = (
+  wishlistId: string,
+  callback: (pledges: ItemPledge[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  return onSnapshot(
+    collection(db, 'wishlists', wishlistId, 'pledges'),
+    (querySnapshot) => {
+      callback(querySnapshot.docs.map((doc) => doc.data() as ItemPledge));
+    },
+    (error) => {
+      console.error('Error subscribing to pledges:', error);
+      if (onError) {
+        onError(error as Error);
+      } else {
+        callback([]);
+      }
+    }
+  );
+};
+
+export const getClaimsForWishlist = async (
+  wishlistId: string
+): Promise<ItemClaim[]> => {
+  try {
+    const querySnapshot = await getDocs(collection(db, 'wishlists', wishlistId, 'claims'));
+    return querySnapshot.docs.flatMap((doc) =>
+      toItemClaims(doc.data() as ClaimDocument)
+    );
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to get claims');
+  }
+};
+
+export const getPledgesForWishlist = async (
+  wishlistId: string
+): Promise<ItemPledge[]> => {
+  try {
+    const querySnapshot = await getDocs(collection(db, 'wishlists', wishlistId, 'pledges'));
+    return querySnapshot.docs.map((doc) => doc.data() as ItemPledge);
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to get pledges');
+  }
+};
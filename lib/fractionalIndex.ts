@@ -0,0 +1,70 @@
+// Fractional indexing for ordered lists
+// Each item gets a string key; sorting keys lexicographically gives the list
+// order, and a new key can always be generated between two existing ones, so
+// moving an item only rewrites that item's key.
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+// Returns a key strictly between a and b. `a` may be empty (start of the list)
+// and `b` null (end of the list). Keys never end with the zero digit, which
+// guarantees there is always room for another key in between.
+const midpoint = (a: string, b: string | null): string => {
+  if (b !== null) {
+    // Skip the common prefix
+    let n = 0;
+    while ((a[n] || DIGITS[0]) === b[n]) {
+      n++;
+    }
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+
+  if (digitB - digitA > 1) {
+    // Appending is the common case, so step by a single digit to keep keys short
+    if (b === null && a) {
+      return DIGITS[digitA + 1];
+    }
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+
+  // The first digits are adjacent
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+};
+
+// Generate a key that sorts after `a` and before `b`; pass null for either
+// end to append or prepend
+export const generateKeyBetween = (
+  a: string | null,
+  b: string | null
+): string => {
+  if (a !== null && b !== null && a >= b) {
+    throw new Error(`Invalid key range: ${a} >= ${b}`);
+  }
+  return midpoint(a ?? '', b);
+};
+
+// Generate n ordered keys between `a` and `b`, splitting the range in halves so
+// the keys stay short
+export const generateNKeysBetween = (
+  a: string | null,
+  b: string | null,
+  n: number
+): string[] => {
+  if (n <= 0) {
+    return [];
+  }
+  const middleIndex = Math.floor(n / 2);
+  const middle = generateKeyBetween(a, b);
+  return [
+    ...generateNKeysBetween(a, middle, middleIndex),
+    middle,
+    ...generateNKeysBetween(middle, b, n - middleIndex - 1),
+  ];
+};
@@ -0,0 +1,161 @@
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import * as ImagePicker from 'expo-image-picker';
+import { getStorageAdapter } from './storage';
+
+// Photos are uploaded twice: scaled down for the expanded item view, and as
+// a small thumbnail for the list cards so long lists don't download every
+// full-size photo.
+const FULL_IMAGE_WIDTH = 1600;
+const THUMBNAIL_WIDTH = 240;
+// Avatars are only ever shown small
+const AVATAR_WIDTH = 400;
+
+export type ImageSource = 'camera' | 'library';
+
+export interface PickedImage {
+  uri: string; // Local file URI
+  width: number;
+}
+
+export interface ItemImage {
+  imageUrl: string;
+  thumbnailUrl: string;
+  // Storage path of the full image, the thumbnail is stored next to it
+  imagePath: string;
+}
+
+export interface AvatarImage {
+  avatarUrl: string;
+  avatarPath: string; // Storage path
+}
+
+const thumbnailPathFor = (imagePath: string): string => imagePath.replace(/\.jpg$/, '_thumb.jpg');
+
+const generateImageId = (): string => `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Let the user take or choose a photo. Returns null if they cancelled.
+export const pickImage = async (source: ImageSource): Promise<PickedImage | null> => {
+  try {
+    const permission = source === 'camera'
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      throw new Error(
+        source === 'camera'
+          ? 'Camera access is needed to take a photo'
+          : 'Photo library access is needed to choose a photo'
+      );
+    }
+
+    const options: ImagePicker.ImagePickerOptions = {
+      mediaTypes: ['images'],
+      allowsEditing: true,
+      quality: 1,
+    };
+    const result = source === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+    if (result.canceled || result.assets.length === 0) {
+      return null;
+    }
+    const [asset] = result.assets;
+    return { uri: asset.uri, width: asset.width };
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to pick image');
+  }
+};
+
+// Scale the image down to at most the given width and encode it as JPEG
+const toJpeg = async (image: PickedImage, maxWidth: number): Promise<Blob> => {
+  const context = ImageManipulator.manipulate(image.uri);
+  if (image.width > maxWidth) {
+    context.resize({ width: maxWidth });
+  }
+  const rendered = await context.renderAsync();
+  const result = await rendered.saveAsync({ compress: 0.8, format: SaveFormat.JPEG });
+  const response = await fetch(result.uri);
+  return response.blob();
+};
+
+export const uploadItemImage = async (
+  wishlistId: string,
+  image: PickedImage
+): Promise<ItemImage> => {
+  try {
+    const adapter = getStorageAdapter();
+    const imagePath = `wishlists/${wishlistId}/images/${generateImageId()}.jpg`;
+
+    const [fullImage, thumbnail] = await Promise.all([
+      toJpeg(image, FULL_IMAGE_WIDTH),
+      toJpeg(image, THUMBNAIL_WIDTH),
+    ]);
+    const [imageUrl, thumbnailUrl] = await Promise.all([
+      adapter.upload(imagePath, fullImage, 'image/jpeg'),
+      adapter.upload(thumbnailPathFor(imagePath), thumbnail, 'image/jpeg'),
+    ]);
+    return { imageUrl, thumbnailUrl, imagePath };
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to upload image');
+  }
+};
+
+// Give an item copied to another wishlist its own copy of the uploaded photo,
+// so the photo stays when the original item is deleted along with its own
+export const copyItemImage = async (
+  wishlistId: string,
+  sourcePath: string
+): Promise<ItemImage> => {
+  try {
+    const adapter = getStorageAdapter();
+    const imagePath = `wishlists/${wishlistId}/images/${generateImageId()}.jpg`;
+
+    const [fullImage, thumbnail] = await Promise.all([
+      adapter.download(sourcePath),
+      adapter.download(thumbnailPathFor(sourcePath)),
+    ]);
+    const [imageUrl, thumbnailUrl] = await Promise.all([
+      adapter.upload(imagePath, fullImage, 'image/jpeg'),
+      adapter.upload(thumbnailPathFor(imagePath), thumbnail, 'image/jpeg'),
+    ]);
+    return { imageUrl, thumbnailUrl, imagePath };
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to copy image');
+  }
+};
+
+export const deleteItemImage = async (imagePath: string): Promise<void> => {
+  try {
+    const adapter = getStorageAdapter();
+    await Promise.all([
+      adapter.remove(imagePath),
+      adapter.remove(thumbnailPathFor(imagePath)),
+    ]);
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to delete image');
+  }
+};
+
+export const uploadAvatarImage = async (
+  userId: string,
+  image: PickedImage
+): Promise<AvatarImage> => {
+  try {
+    const avatarPath = `avatars/${userId}/${generateImageId()}.jpg`;
+    const avatarUrl = await getStorageAdapter().upload(
+      avatarPath,
+      await toJpeg(image, AVATAR_WIDTH),
+      'image/jpeg'
+    );
+    return { avatarUrl, avatarPath };
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to upload avatar');
+  }
+};
+
+export const deleteAvatarImage = async (avatarPath: string): Promise<void> => {
+  try {
+    await getStorageAdapter().remove(avatarPath);
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to delete avatar');
+  }
+};
@@ -0,0 +1,204 @@
+// Link previews for pasted shop URLs
+// parseLinkMetadata is a pure function over the page HTML so it can be run
+// against saved pages; fetching goes through an injectable Fetcher.
+
+export interface LinkMetadata {
+  title?: string;
+  description?: string;
+  image?: string;
+  price?: number;
+  currency?: string; // ISO 4217 code
+}
+
+// Returns the HTML of the page at the given URL
+export type Fetcher = (url: string) => Promise<string>;
+
+export const defaultFetcher: Fetcher = async (url) => {
+  const response = await fetch(url, { headers: { Accept: 'text/html' } });
+  if (!response.ok) {
+    throw new Error(`Request failed with status ${response.status}`);
+  }
+  return response.text();
+};
+
+const decodeEntities = (text: string): string => {
+  const named: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+  };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x'
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10);
+      return isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+};
+
+const cleanText = (text: string | undefined): string | undefined => {
+  const cleaned = text ? decodeEntities(text).replace(/\s+/g, ' ').trim() : '';
+  return cleaned || undefined;
+};
+
+// Parse "1.299,00", "1,299.00", "1.299" or "19.99" into a number
+const parsePrice = (value: unknown): number | undefined => {
+  if (typeof value === 'number') {
+    return isFinite(value) ? value : undefined;
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  let digits = value.replace(/[^\d.,]/g, '');
+  const lastComma = digits.lastIndexOf(',');
+  const lastDot = digits.lastIndexOf('.');
+  if (/^[1-9]\d{0,2}([.,])\d{3}(\1\d{3})*$/.test(digits)) {
+    // "1.299", "1,299" or "1.299.000" only group thousands
+    digits = digits.replace(/[.,]/g, '');
+  } else if (lastComma > lastDot) {
+    // Comma is the decimal separator
+    digits = digits.replace(/\./g, '').replace(',', '.');
+  } else {
+    digits = digits.replace(/,/g, '');
+  }
+  const price = parseFloat(digits);
+  return isNaN(price) ? undefined : price;
+};
+
+const resolveUrl = (url: string | undefined, baseUrl?: string): string | undefined => {
+  if (!url) {
+    return undefined;
+  }
+  try {
+    return new URL(url, baseUrl).toString();
+  } catch {
+    return url;
+  }
+};
+
+// Attributes of every <meta> tag, keyed by property/name (lowercased)
+const parseMetaTags = (html: string): Map<string, string> => {
+  const tags = new Map<string, string>();
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = new Map<string, string>();
+    for (const [, name, , doubleQuoted, singleQuoted, unquoted] of tag.matchAll(
+      /([a-z:-]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s>]+))/gi
+    )) {
+      attributes.set(name.toLowerCase(), doubleQuoted ?? singleQuoted ?? unquoted ?? '');
+    }
+    const key = (attributes.get('property') || attributes.get('name') || attributes.get('itemprop'))?.toLowerCase();
+    const content = attributes.get('content');
+    // The first tag wins, like most crawlers do
+    if (key && content !== undefined && !tags.has(key)) {
+      tags.set(key, content);
+    }
+  }
+  return tags;
+};
+
+const hasType = (node: any, type: string): boolean => {
+  const types = Array.isArray(node?.['@type']) ? node['@type'] : [node?.['@type']];
+  return types.some((nodeType: unknown) => typeof nodeType === 'string' && nodeType.toLowerCase() === type.toLowerCase());
+};
+
+// Find the first schema.org Product in the page's JSON-LD blocks
+const findJsonLdProduct = (html: string): any => {
+  const search = (node: any): any => {
+    if (!node || typeof node !== 'object') {
+      return undefined;
+    }
+    if (Array.isArray(node)) {
+      for (const child of node) {
+        const product = search(child);
+        if (product) return product;
+      }
+      return undefined;
+    }
+    if (hasType(node, 'Product')) {
+      return node;
+    }
+    return search(node['@graph']) ?? search(node.mainEntity);
+  };
+
+  for (const [, json] of html.matchAll(
+    /<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi
+  )) {
+    try {
+      const product = search(JSON.parse(json.trim()));
+      if (product) return product;
+    } catch {
+      // Shops regularly ship broken JSON-LD, fall back to the other blocks
+    }
+  }
+  return undefined;
+};
+
+const productOffer = (product: any): { price?: number; currency?: string } => {
+  const offers = Array.isArray(product?.offers) ? product.offers : [product?.offers];
+  for (const offer of offers) {
+    if (!offer || typeof offer !== 'object') continue;
+    // AggregateOffer only has a price range
+    const price = parsePrice(offer.price ?? offer.lowPrice ?? offer.priceSpecification?.price);
+    if (price !== undefined) {
+      return {
+        price,
+        currency: offer.priceCurrency ?? offer.priceSpecification?.priceCurrency,
+      };
+    }
+  }
+  return {};
+};
+
+const productImage = (product: any): string | undefined => {
+  const image = Array.isArray(product?.image) ? product.image[0] : product?.image;
+  return typeof image === 'string' ? image : image?.url;
+};
+
+// Extract the title, description, image and price of a product page.
+// JSON-LD Product data wins over OpenGraph tags, which win over <title>.
+export const parseLinkMetadata = (html: string, pageUrl?: string): LinkMetadata => {
+  const meta = parseMetaTags(html);
+  const product = findJsonLdProduct(html);
+  const offer = productOffer(product);
+  const titleTag = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+  const price = offer.price ?? parsePrice(
+    meta.get('product:price:amount') ?? meta.get('og:price:amount') ?? meta.get('price')
+  );
+  const currency = offer.currency ?? meta.get('product:price:currency') ?? meta.get('og:price:currency') ?? meta.get('pricecurrency');
+
+  const metadata: LinkMetadata = {
+    title: cleanText(product?.name) ?? cleanText(meta.get('og:title')) ?? cleanText(meta.get('twitter:title')) ?? cleanText(titleTag),
+    description: cleanText(product?.description) ?? cleanText(meta.get('og:description')) ?? cleanText(meta.get('description')),
+    image: resolveUrl(cleanText(productImage(product)) ?? cleanText(meta.get('og:image')) ?? cleanText(meta.get('twitter:image')), pageUrl),
+    price,
+    currency: price !== undefined ? cleanText(currency)?.toUpperCase() : undefined,
+  };
+
+  // Leave out what the page didn't have
+  (Object.keys(metadata) as (keyof LinkMetadata)[]).forEach((key) => {
+    if (metadata[key] === undefined) {
+      delete metadata[key];
+    }
+  });
+  return metadata;
+};
+
+export const isLikelyUrl = (text: string): boolean => /^https?:\/\/\S+\.\S+/i.test(text.trim());
+
+export const fetchLinkMetadata = async (
+  url: string,
+  fetcher: Fetcher = defaultFetcher
+): Promise<LinkMetadata> => {
+  try {
+    const html = await fetcher(url.trim());
+    return parseLinkMetadata(html, url.trim());
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to load link preview');
+  }
+};
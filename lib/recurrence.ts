@@ -0,0 +1,66 @@
+// Recurring events (birthdays, Christmas, ...)
+// Pure functions only - rolling an event over is handled in lib/firestore/rollover.ts
+
+export type RecurrenceUnit = 'week' | 'month' | 'year';
+
+// An event repeats every `interval` units from its date. Yearly on the date
+// is { unit: 'year', interval: 1 }.
+export interface EventRecurrence {
+  unit: RecurrenceUnit;
+  interval: number;
+}
+
+export const YEARLY_RECURRENCE: EventRecurrence = { unit: 'year', interval: 1 };
+
+export const RECURRENCE_UNITS: RecurrenceUnit[] = ['week', 'month', 'year'];
+
+export const isYearlyRecurrence = (recurrence: EventRecurrence): boolean =>
+  recurrence.unit === YEARLY_RECURRENCE.unit && recurrence.interval === YEARLY_RECURRENCE.interval;
+
+// e.g. "Every year", "Every 2 months"
+export const describeRecurrence = (recurrence: EventRecurrence): string =>
+  recurrence.interval === 1
+    ? `Every ${recurrence.unit}`
+    : `Every ${recurrence.interval} ${recurrence.unit}s`;
+
+const addInterval = (date: Date, recurrence: EventRecurrence, times: number): Date => {
+  const result = new Date(date);
+  const amount = recurrence.interval * times;
+  if (recurrence.unit === 'week') {
+    result.setDate(result.getDate() + amount * 7);
+  } else {
+    // Months are counted from the original date so a Jan 31 event stays at the
+    // end of the month instead of drifting (Jan 31 -> Feb 28 -> Mar 28)
+    const months = recurrence.unit === 'year' ? amount * 12 : amount;
+    const targetMonth = result.getMonth() + months;
+    result.setDate(1);
+    result.setMonth(targetMonth);
+    const daysInMonth = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+    result.setDate(Math.min(date.getDate(), daysInMonth));
+  }
+  return result;
+};
+
+// The first occurrence after both the given date and `after` (usually now),
+// so an event rolled over late skips the occurrences that already went by
+export const getNextOccurrence = (
+  date: Date,
+  recurrence: EventRecurrence,
+  after: Date = new Date()
+): Date => {
+  let times = 1;
+  let next = addInterval(date, recurrence, times);
+  while (next <= after) {
+    times++;
+    next = addInterval(date, recurrence, times);
+  }
+  return next;
+};
+
+// Names that mention the year of the occurrence follow along:
+// "Christmas 2025" becomes "Christmas 2026"
+export const getNextOccurrenceName = (name: string, date: Date, nextDate: Date): string => {
+  const year = String(date.getFullYear());
+  const nextYear = String(nextDate.getFullYear());
+  return name.replace(new RegExp(`\\b${year}\\b`, 'g'), nextYear);
+};
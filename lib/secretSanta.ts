@@ -0,0 +1,127 @@
+// Secret Santa draw engine
+// Pure functions only - persisting the result is handled in lib/firestore/assignments.ts
+
+export interface DrawExclusion {
+  memberA: string;
+  memberB: string;
+}
+
+export interface DrawPair {
+  giver: string; // userId of the person buying the gift
+  receiver: string; // userId of the person receiving the gift
+}
+
+export interface DrawOptions {
+  seed: string;
+  exclusions?: DrawExclusion[];
+}
+
+// Generate a short random seed that can be shown to the organizer and reused
+// to reproduce a draw
+export const generateDrawSeed = (): string => {
+  return Math.random().toString(36).substring(2, 10);
+};
+
+// Hash a string seed into a 32-bit integer (FNV-1a)
+const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Seeded pseudo-random number generator (mulberry32), returns values in [0, 1)
+export const createSeededRandom = (seed: string): (() => number) => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+const isExcluded = (
+  exclusions: DrawExclusion[],
+  giver: string,
+  receiver: string
+): boolean => {
+  return exclusions.some(
+    (exclusion) =>
+      (exclusion.memberA === giver && exclusion.memberB === receiver) ||
+      (exclusion.memberA === receiver && exclusion.memberB === giver)
+  );
+};
+
+// Draw names for the given members: everyone gives to exactly one person,
+// nobody draws themselves and excluded pairs never draw each other.
+// The same members, exclusions and seed always produce the same result.
+export const drawNames = (
+  memberIds: string[],
+  options: DrawOptions
+): DrawPair[] => {
+  const exclusions = options.exclusions || [];
+  // Sort first so the result doesn't depend on the order members joined in
+  const members = Array.from(new Set(memberIds)).sort();
+
+  if (members.length < 2) {
+    throw new Error('At least two members are needed to draw names');
+  }
+
+  const random = createSeededRandom(options.seed);
+  const givers = shuffle(members, random);
+  const assigned = new Map<string, string>();
+  const taken = new Set<string>();
+
+  // Backtracking search over givers, trying receivers in random order
+  const assign = (giverIndex: number): boolean => {
+    if (giverIndex === givers.length) {
+      return true;
+    }
+
+    const giver = givers[giverIndex];
+    const candidates = shuffle(
+      members.filter(
+        (receiver) =>
+          receiver !== giver &&
+          !taken.has(receiver) &&
+          !isExcluded(exclusions, giver, receiver)
+      ),
+      random
+    );
+
+    for (const receiver of candidates) {
+      assigned.set(giver, receiver);
+      taken.add(receiver);
+      if (assign(giverIndex + 1)) {
+        return true;
+      }
+      assigned.delete(giver);
+      taken.delete(receiver);
+    }
+
+    return false;
+  };
+
+  if (!assign(0)) {
+    throw new Error(
+      'No valid draw is possible with these members and exclusions'
+    );
+  }
+
+  return members.map((giver) => ({
+    giver,
+    receiver: assigned.get(giver)!,
+  }));
+};
@@ -0,0 +1,32 @@
+import { deleteObject, getBlob, getDownloadURL, ref, uploadBytes } from 'firebase/storage';
+import { storage } from './firebase';
+
+// File uploads go through a StorageAdapter so the backend can be swapped.
+// The default adapter uses Firebase Storage, which talks to the Storage
+// emulator when emulators are enabled (see lib/firebase.ts).
+export interface StorageAdapter {
+  // Store the data at the given path and return a URL it can be downloaded from
+  upload: (path: string, data: Blob, contentType: string) => Promise<string>;
+  download: (path: string) => Promise<Blob>;
+  remove: (path: string) => Promise<void>;
+}
+
+export const firebaseStorageAdapter: StorageAdapter = {
+  upload: async (path, data, contentType) => {
+    const storageRef = ref(storage, path);
+    await uploadBytes(storageRef, data, { contentType });
+    return getDownloadURL(storageRef);
+  },
+  download: async (path) => getBlob(ref(storage, path)),
+  remove: async (path) => {
+    await deleteObject(ref(storage, path));
+  },
+};
+
+let storageAdapter: StorageAdapter = firebaseStorageAdapter;
+
+export const getStorageAdapter = (): StorageAdapter => storageAdapter;
+
+export const setStorageAdapter = (adapter: StorageAdapter): void => {
+  storageAdapter = adapter;
+};
@@ -0,0 +1,76 @@
+// Runs parseLinkMetadata against saved shop pages and compares the result
+// with what each page should give. Run with `bun run check:link-metadata`.
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { LinkMetadata, parseLinkMetadata } from '../lib/linkMetadata';
+
+interface Fixture {
+  file: string;
+  pageUrl: string;
+  expected: LinkMetadata;
+}
+
+const FIXTURES_DIR = join(__dirname, 'fixtures', 'link-metadata');
+
+const fixtures: Fixture[] = [
+  {
+    // OpenGraph tags only: relative image, European price format
+    file: 'og-only.html',
+    pageUrl: 'https://bergladen.example.de/p/rucksack-30l',
+    expected: {
+      title: 'Wanderrucksack 30 L & Regenhülle',
+      description: 'Leichter Rucksack für Tagestouren, mit Regenhülle.',
+      image: 'https://bergladen.example.de/media/rucksack-30l.jpg',
+      price: 1299,
+      currency: 'EUR',
+    },
+  },
+  {
+    // A broken JSON-LD block followed by a Product nested in @graph, which
+    // wins over the page's OpenGraph tags
+    file: 'json-ld-product.html',
+    pageUrl: 'https://shop.example.com/products/skillet-10',
+    expected: {
+      title: 'Cast Iron Skillet, 10"',
+      description: 'Pre-seasoned skillet for stovetop and oven.',
+      image: 'https://cdn.example.com/skillet-10.jpg',
+      price: 34.95,
+      currency: 'USD',
+    },
+  },
+  {
+    // Whole price with a dot for thousands and no decimals
+    file: 'thousands-price.html',
+    pageUrl: 'https://cykelbutikken.example.dk/hjelm-mips',
+    expected: {
+      title: 'Cykelhjelm MIPS',
+      price: 1299,
+      currency: 'DKK',
+    },
+  },
+  {
+    // Neither: only the <title> is left
+    file: 'plain.html',
+    pageUrl: 'https://studio.example.org/mug',
+    expected: {
+      title: 'Handmade Mug – Studio Pottery',
+    },
+  },
+];
+
+let failures = 0;
+fixtures.forEach(({ file, pageUrl, expected }) => {
+  const html = readFileSync(join(FIXTURES_DIR, file), 'utf8');
+  try {
+    assert.deepEqual(parseLinkMetadata(html, pageUrl), expected);
+    console.log(`ok   ${file}`);
+  } catch (error: any) {
+    failures++;
+    console.error(`FAIL ${file}\n${error.message}`);
+  }
+});
+
+if (failures > 0) {
+  process.exit(1);
+}